@@ -0,0 +1,56 @@
+import { Action, ActionPanel, Color, Icon, List, getPreferenceValues, openExtensionPreferences } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { SetupCheck, SetupCheckStatus, SetupPreferences, runSetupChecks } from "./lib/setup-checks";
+
+const STATUS_ICONS: Record<SetupCheckStatus, { source: Icon; tintColor: Color }> = {
+  ok: { source: Icon.CheckCircle, tintColor: Color.Green },
+  warning: { source: Icon.Warning, tintColor: Color.Yellow },
+  error: { source: Icon.XMarkCircle, tintColor: Color.Red },
+};
+
+export default function Command() {
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [checks, setChecks] = useState<SetupCheck[]>([]);
+
+  async function reload() {
+    setIsLoading(true);
+    try {
+      setChecks(await runSetupChecks(getPreferenceValues<SetupPreferences>()));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void reload();
+  }, []);
+
+  const problems = checks.filter((c) => c.status !== "ok").length;
+
+  return (
+    <List isLoading={isLoading} navigationTitle={problems ? `Check Setup (${problems} to fix)` : "Check Setup"}>
+      {checks.map((check) => (
+        <List.Item
+          key={check.id}
+          title={check.title}
+          subtitle={check.message}
+          icon={STATUS_ICONS[check.status]}
+          keywords={[check.id]}
+          actions={
+            <ActionPanel>
+              {check.fix ? <Action.OpenInBrowser title={check.fix.title} url={check.fix.url} /> : null}
+              <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+              <Action.CopyToClipboard title="Copy Message" content={`${check.title}: ${check.message}`} />
+              <Action
+                title="Run Checks Again"
+                icon={Icon.ArrowClockwise}
+                shortcut={{ modifiers: ["cmd"], key: "r" }}
+                onAction={reload}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,353 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Color,
+  Icon,
+  List,
+  Toast,
+  confirmAlert,
+  getPreferenceValues,
+  showToast,
+} from "@raycast/api";
+import { useEffect, useMemo, useState } from "react";
+import { useRepoProfiles } from "./hooks/use-repo-profiles";
+import { parseBranchName } from "./lib/branch-name";
+import {
+  deleteLocalBranches,
+  deleteRemoteBranches,
+  getCurrentRef,
+  gitErrorMessage,
+  listBranchRefs,
+  listMergedBranches,
+  refExists,
+} from "./lib/git";
+import { JiraIssue, fetchIssuesByKeys, getJiraCredentials, isIssueDone, issueBrowseUrl } from "./lib/jira";
+import { DEFAULT_REPO_ID, RepoProfile, parseBranchList } from "./lib/repos";
+
+type Preferences = {
+  jiraEmail?: string;
+  jiraApiToken?: string;
+  staleBranchDays?: string;
+  protectedBranches?: string;
+};
+
+const DEFAULT_STALE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type CleanupReason = "merged" | "gone" | "stale" | "jira-done";
+
+type CleanupBranch = {
+  branch: string;
+  committerDate: Date;
+  // Empty when the branch has no upstream or its upstream is gone.
+  upstream: string;
+  reasons: CleanupReason[];
+  issueKey: string | null;
+  jiraStatus?: string;
+};
+
+const REASON_LABELS: Record<CleanupReason, { text: string; color: Color }> = {
+  merged: { text: "merged", color: Color.Green },
+  gone: { text: "upstream gone", color: Color.Orange },
+  stale: { text: "stale", color: Color.SecondaryText },
+  "jira-done": { text: "Jira done", color: Color.Blue },
+};
+
+function protectedBranchesOf(repo: RepoProfile, prefs: Preferences): Set<string> {
+  return new Set([...parseBranchList(prefs.protectedBranches ?? ""), ...repo.baseBranches, ...repo.pipelineBranches]);
+}
+
+async function loadCleanupBranches(repo: RepoProfile, prefs: Preferences): Promise<CleanupBranch[]> {
+  const workerDir = repo.directory;
+  const staleDays = parseInt(String(prefs.staleBranchDays || ""), 10) || DEFAULT_STALE_DAYS;
+  const protectedBranches = protectedBranchesOf(repo, prefs);
+
+  const currentRef = await getCurrentRef(workerDir);
+  // Compare against the remote base when we have it: the local base is often behind.
+  const mainBase = repo.baseBranches[0] ?? "prod";
+  const mergeTarget = (await refExists(workerDir, `origin/${mainBase}`)) ? `origin/${mainBase}` : mainBase;
+  const [refs, merged] = await Promise.all([
+    listBranchRefs(workerDir),
+    listMergedBranches(workerDir, mergeTarget).catch(() => [] as string[]),
+  ]);
+  const mergedSet = new Set(merged);
+  const staleBefore = Date.now() - staleDays * DAY_MS;
+
+  const branches: CleanupBranch[] = refs
+    .filter((r) => r.branch !== currentRef && !protectedBranches.has(r.branch))
+    .map((r) => {
+      const reasons: CleanupReason[] = [];
+      if (mergedSet.has(r.branch)) reasons.push("merged");
+      if (r.upstreamGone) reasons.push("gone");
+      if (r.committerDate.getTime() < staleBefore) reasons.push("stale");
+      return {
+        branch: r.branch,
+        committerDate: r.committerDate,
+        upstream: r.upstreamGone ? "" : r.upstream,
+        reasons,
+        issueKey: parseBranchName(r.branch).issueKey,
+      };
+    });
+
+  const creds = getJiraCredentials(prefs);
+  const keys = branches.map((b) => b.issueKey).filter((k): k is string => !!k);
+  if (creds && keys.length) {
+    try {
+      const issues = new Map<string, JiraIssue>(
+        (await fetchIssuesByKeys(creds, keys)).map((issue) => [issue.key, issue]),
+      );
+      for (const b of branches) {
+        const issue = b.issueKey ? issues.get(b.issueKey) : undefined;
+        if (!issue) continue;
+        b.jiraStatus = issue.fields.status?.name;
+        if (isIssueDone(issue)) b.reasons.push("jira-done");
+      }
+    } catch (e) {
+      // Git-based classification is still useful without Jira.
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Couldn't load Jira statuses",
+        message: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+
+  return branches;
+}
+
+// Only "merged" proves the commits are in the base branch. A gone upstream or a done Jira issue doesn't, so those
+// branches get `git branch -d`, which refuses to delete unmerged work and reports it.
+function canForceDelete(b: CleanupBranch): boolean {
+  return b.reasons.includes("merged");
+}
+
+// `origin/foo` -> { remote: "origin", name: "foo" }
+function splitUpstream(upstream: string): { remote: string; name: string } | null {
+  const index = upstream.indexOf("/");
+  if (index <= 0) return null;
+  return { remote: upstream.slice(0, index), name: upstream.slice(index + 1) };
+}
+
+export default function Command() {
+  const prefs = getPreferenceValues<Preferences>();
+  const { profiles } = useRepoProfiles();
+  const [repoId, setRepoId] = useState<string>(DEFAULT_REPO_ID);
+  const repo = useMemo(() => profiles.find((p) => p.id === repoId) ?? profiles[0], [profiles, repoId]);
+
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [branches, setBranches] = useState<CleanupBranch[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  async function reload() {
+    setIsLoading(true);
+    try {
+      setBranches(await loadCleanupBranches(repo, prefs));
+      setSelected(new Set());
+    } catch (e) {
+      setBranches([]);
+      await showToast({ style: Toast.Style.Failure, title: "Couldn't read git branches", message: gitErrorMessage(e) });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void reload();
+  }, [repo.id, repo.directory]);
+
+  const candidates = branches.filter((b) => b.reasons.length > 0);
+  const active = branches.filter((b) => b.reasons.length === 0);
+
+  function toggle(branch: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(branch)) next.delete(branch);
+      else next.add(branch);
+      return next;
+    });
+  }
+
+  async function handleDelete(mode: "local" | "remote" | "both") {
+    const targets = branches.filter((b) => selected.has(b.branch));
+    if (!targets.length) {
+      await showToast({ style: Toast.Style.Failure, title: "No branches selected" });
+      return;
+    }
+
+    // Only a branch pushed under its own name is deleted on the remote: one tracking `origin/prod` (or any
+    // protected branch) must never turn into `git push --delete prod`.
+    const protectedBranches = protectedBranchesOf(repo, prefs);
+    const remoteTargets: { branch: string; remote: string }[] = [];
+    const remoteSkipped: string[] = [];
+    for (const b of targets) {
+      const upstream = b.upstream ? splitUpstream(b.upstream) : null;
+      if (upstream && upstream.name === b.branch && !protectedBranches.has(upstream.name)) {
+        remoteTargets.push({ branch: b.branch, remote: upstream.remote });
+      } else if (b.upstream) {
+        remoteSkipped.push(`${b.branch} (tracks ${b.upstream})`);
+      }
+    }
+    const forced = targets.filter(canForceDelete).map((b) => b.branch);
+    const unforced = targets.filter((b) => !canForceDelete(b)).map((b) => b.branch);
+
+    const where = mode === "local" ? "locally" : mode === "remote" ? "on the remote" : "locally and on the remote";
+    const count = mode === "remote" ? remoteTargets.length : targets.length;
+    if (!count) {
+      await showToast({ style: Toast.Style.Failure, title: "None of the selected branches exist on the remote" });
+      return;
+    }
+    const listed = (names: string[]) =>
+      names
+        .slice(0, 15)
+        .join("\n")
+        .concat(names.length > 15 ? `\n…and ${names.length - 15} more` : "");
+    const confirmed = await confirmAlert({
+      title: `Delete ${count} branch(es) ${where}?`,
+      message: [
+        listed(mode === "remote" ? remoteTargets.map((t) => t.branch) : targets.map((b) => b.branch)),
+        mode !== "remote" && forced.length
+          ? `Force-deleted locally (merged into the base branch):\n${listed(forced)}`
+          : "",
+        mode !== "remote" && unforced.length
+          ? `Kept locally if they have unmerged commits (not merged into the base branch):\n${listed(unforced)}`
+          : "",
+        mode !== "local" && remoteSkipped.length
+          ? `Not deleted on the remote (upstream has another name or is protected):\n${listed(remoteSkipped)}`
+          : "",
+      ]
+        .filter(Boolean)
+        .join("\n\n"),
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    // One git call per branch, so a branch that is already gone on the remote or has unmerged commits only
+    // fails on its own instead of aborting the whole batch.
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Deleting branches…" });
+    const errors: string[] = [];
+    // By branch name: in "both" mode a branch is one deletion, not two.
+    const succeeded = new Set<string>();
+    const failed = new Set<string>();
+    async function attempt(branch: string, action: () => Promise<void>) {
+      try {
+        await action();
+        succeeded.add(branch);
+      } catch (e) {
+        failed.add(branch);
+        errors.push(`${branch}: ${gitErrorMessage(e)}`);
+      }
+    }
+    if (mode !== "local") {
+      for (const t of remoteTargets) {
+        await attempt(t.branch, () => deleteRemoteBranches(repo.directory, t.remote, [t.branch]));
+      }
+    }
+    if (mode !== "remote") {
+      for (const b of targets) {
+        await attempt(b.branch, () => deleteLocalBranches(repo.directory, [b.branch], canForceDelete(b)));
+      }
+    }
+
+    if (failed.size) {
+      const deleted = [...succeeded].filter((b) => !failed.has(b)).length;
+      toast.style = Toast.Style.Failure;
+      toast.title = `Couldn't delete ${failed.size} branch(es) ${where}` + (deleted ? ` (${deleted} deleted)` : "");
+      toast.message = errors.join("\n");
+    } else {
+      toast.style = Toast.Style.Success;
+      toast.title = `Deleted ${count} branch(es) ${where}`;
+    }
+    await reload();
+  }
+
+  function renderItem(b: CleanupBranch) {
+    const isSelected = selected.has(b.branch);
+    return (
+      <List.Item
+        key={b.branch}
+        title={b.branch}
+        icon={isSelected ? { source: Icon.CheckCircle, tintColor: Color.Red } : Icon.Circle}
+        accessories={[
+          ...b.reasons.map((r) => ({ tag: { value: REASON_LABELS[r].text, color: REASON_LABELS[r].color } })),
+          ...(b.jiraStatus ? [{ text: b.jiraStatus, tooltip: `Jira: ${b.issueKey}` }] : []),
+          ...(b.upstream ? [{ icon: Icon.Cloud, tooltip: b.upstream }] : []),
+          { date: b.committerDate, tooltip: "Last commit" },
+        ]}
+        actions={
+          <ActionPanel>
+            <Action
+              title={isSelected ? "Deselect Branch" : "Select Branch"}
+              icon={isSelected ? Icon.Circle : Icon.CheckCircle}
+              onAction={() => toggle(b.branch)}
+            />
+            <ActionPanel.Section title={`${selected.size} Selected`}>
+              <Action
+                title="Delete Selected Locally"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                onAction={() => handleDelete("local")}
+              />
+              <Action
+                title="Delete Selected Locally and Remotely"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                shortcut={{ modifiers: ["ctrl", "shift"], key: "x" }}
+                onAction={() => handleDelete("both")}
+              />
+              <Action
+                title="Delete Selected Remotely"
+                icon={Icon.Cloud}
+                style={Action.Style.Destructive}
+                onAction={() => handleDelete("remote")}
+              />
+              <Action
+                title="Select All Cleanup Candidates"
+                icon={Icon.CheckList}
+                shortcut={{ modifiers: ["cmd"], key: "a" }}
+                onAction={() => setSelected(new Set(candidates.map((c) => c.branch)))}
+              />
+              <Action
+                title="Clear Selection"
+                icon={Icon.XMarkCircle}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+                onAction={() => setSelected(new Set())}
+              />
+            </ActionPanel.Section>
+            <Action.CopyToClipboard title="Copy Branch Name" content={b.branch} />
+            {b.issueKey ? <Action.OpenInBrowser title="Open in Jira" url={issueBrowseUrl(b.issueKey)} /> : null}
+            <Action
+              title="Reload Branches"
+              icon={Icon.ArrowClockwise}
+              shortcut={{ modifiers: ["cmd"], key: "r" }}
+              onAction={reload}
+            />
+          </ActionPanel>
+        }
+      />
+    );
+  }
+
+  return (
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder="Search branches…"
+      navigationTitle={`Cleanup Branches — ${selected.size} selected`}
+      searchBarAccessory={
+        <List.Dropdown tooltip="Repository" storeValue onChange={setRepoId}>
+          {profiles.map((p) => (
+            <List.Dropdown.Item key={p.id} value={p.id} title={p.name} />
+          ))}
+        </List.Dropdown>
+      }
+    >
+      <List.Section title="Cleanup Candidates" subtitle={`${candidates.length}`}>
+        {candidates.map(renderItem)}
+      </List.Section>
+      <List.Section title="Active" subtitle={`${active.length}`}>
+        {active.map(renderItem)}
+      </List.Section>
+    </List>
+  );
+}
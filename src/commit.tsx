@@ -0,0 +1,292 @@
+import {
+  Action,
+  ActionPanel,
+  Color,
+  Form,
+  Icon,
+  List,
+  Toast,
+  getPreferenceValues,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import path from "path";
+import { useEffect, useMemo, useState } from "react";
+import { useRepoProfiles } from "./hooks/use-repo-profiles";
+import { DEFAULT_COMMIT_MESSAGE_TEMPLATE, formatCommitMessage } from "./lib/commit-message";
+import {
+  StatusEntry,
+  commit,
+  getCurrentRef,
+  getRepoRoot,
+  getUpstream,
+  gitErrorMessage,
+  listStatusEntries,
+  push,
+  pushWithUpstream,
+  stageFiles,
+  unstageFiles,
+} from "./lib/git";
+import { DEFAULT_REPO_ID } from "./lib/repos";
+
+type Preferences = {
+  commitMessageTemplate?: string;
+};
+
+type CommitState = {
+  branch: string;
+  repoRoot: string;
+  entries: StatusEntry[];
+};
+
+const STATUS_LABELS: Record<string, { label: string; color: Color }> = {
+  M: { label: "modified", color: Color.Orange },
+  T: { label: "type changed", color: Color.Orange },
+  A: { label: "added", color: Color.Green },
+  D: { label: "deleted", color: Color.Red },
+  R: { label: "renamed", color: Color.Blue },
+  C: { label: "copied", color: Color.Blue },
+  U: { label: "conflict", color: Color.Red },
+  "?": { label: "untracked", color: Color.SecondaryText },
+};
+
+function statusTag(code: string) {
+  const status = STATUS_LABELS[code] ?? { label: code, color: Color.SecondaryText };
+  return { tag: { value: status.label, color: status.color } };
+}
+
+function isStaged(entry: StatusEntry): boolean {
+  return entry.staged !== " " && entry.staged !== "?";
+}
+
+function isUnstaged(entry: StatusEntry): boolean {
+  return entry.unstaged !== " ";
+}
+
+type CommitFormProps = {
+  workerDir: string;
+  branch: string;
+  template: string;
+  hasStaged: boolean;
+  onCommitted: () => Promise<void>;
+};
+
+function CommitForm({ workerDir, branch, template, hasStaged, onCommitted }: CommitFormProps) {
+  const { pop } = useNavigation();
+  const [message, setMessage] = useState<string>("");
+  const finalMessage = formatCommitMessage(message, branch, template);
+
+  async function handleCommit(values: Form.Values, andPush: boolean) {
+    if (!finalMessage.trim()) {
+      await showToast({ style: Toast.Style.Failure, title: "Message is required" });
+      return;
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Committing…" });
+    try {
+      if (values.stageAll) await stageFiles(workerDir, ["."]);
+      const sha = await commit(workerDir, finalMessage);
+      if (andPush) {
+        // First push of the branch: set the upstream like Create Merge Request does.
+        const hasUpstream = !!(await getUpstream(workerDir, branch));
+        toast.title = `Pushing ${branch}…`;
+        if (hasUpstream) await push(workerDir);
+        else await pushWithUpstream(workerDir, branch);
+      }
+      toast.style = Toast.Style.Success;
+      toast.title = andPush ? `Committed and pushed ${sha}` : `Committed ${sha}`;
+      toast.message = finalMessage.split("\n")[0];
+      await onCommitted();
+      pop();
+    } catch (e) {
+      toast.style = Toast.Style.Failure;
+      toast.title = andPush ? "Commit and push failed" : "Commit failed";
+      toast.message = gitErrorMessage(e);
+      // A failed push still leaves the commit behind.
+      await onCommitted();
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={`Commit on ${branch}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Commit" icon={Icon.Check} onSubmit={(values) => handleCommit(values, false)} />
+          <Action.SubmitForm
+            title="Commit and Push"
+            icon={Icon.Upload}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+            onSubmit={(values) => handleCommit(values, true)}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextArea
+        id="message"
+        title="Message"
+        value={message}
+        onChange={setMessage}
+        placeholder="Subject line, then a blank line and the body"
+      />
+      <Form.Description title="Subject" text={finalMessage.split("\n")[0] || "—"} />
+      <Form.Checkbox
+        id="stageAll"
+        label="Stage all changes first"
+        defaultValue={!hasStaged}
+        info="Also stages untracked files and deletions."
+      />
+    </Form>
+  );
+}
+
+export default function Command() {
+  const { commitMessageTemplate } = getPreferenceValues<Preferences>();
+  const template = String(commitMessageTemplate || "").trim() || DEFAULT_COMMIT_MESSAGE_TEMPLATE;
+  const { profiles } = useRepoProfiles();
+  const [repoId, setRepoId] = useState<string>(DEFAULT_REPO_ID);
+  const repo = useMemo(() => profiles.find((p) => p.id === repoId) ?? profiles[0], [profiles, repoId]);
+  const workerDir = repo.directory;
+
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [state, setState] = useState<CommitState | null>(null);
+
+  async function reload() {
+    setIsLoading(true);
+    try {
+      const [branch, repoRoot, entries] = await Promise.all([
+        getCurrentRef(workerDir),
+        getRepoRoot(workerDir),
+        listStatusEntries(workerDir),
+      ]);
+      setState({ branch, repoRoot, entries });
+    } catch (e) {
+      setState(null);
+      await showToast({ style: Toast.Style.Failure, title: "Couldn't read git state", message: gitErrorMessage(e) });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void reload();
+  }, [repo.id, workerDir]);
+
+  async function runGit(title: string, action: () => Promise<void>) {
+    try {
+      await action();
+    } catch (e) {
+      await showToast({ style: Toast.Style.Failure, title, message: gitErrorMessage(e) });
+    }
+    await reload();
+  }
+
+  // Paths are relative to the repository root, so git has to run from there.
+  const root = state?.repoRoot ?? workerDir;
+  const entryPaths = (entry: StatusEntry) => (entry.origPath ? [entry.path, entry.origPath] : [entry.path]);
+  const staged = state?.entries.filter(isStaged) ?? [];
+  const unstaged = state?.entries.filter(isUnstaged) ?? [];
+
+  const commitAction = state ? (
+    <Action.Push
+      title="Commit…"
+      icon={Icon.Check}
+      shortcut={{ modifiers: ["cmd"], key: "return" }}
+      target={
+        <CommitForm
+          workerDir={root}
+          branch={state.branch}
+          template={template}
+          hasStaged={staged.length > 0}
+          onCommitted={reload}
+        />
+      }
+    />
+  ) : null;
+
+  const sharedActions = (
+    <>
+      {unstaged.length ? (
+        <Action
+          title="Stage All"
+          icon={Icon.PlusCircle}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+          onAction={() => runGit("Couldn't stage files", () => stageFiles(root, ["."]))}
+        />
+      ) : null}
+      {staged.length ? (
+        <Action
+          title="Unstage All"
+          icon={Icon.MinusCircle}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "u" }}
+          onAction={() => runGit("Couldn't unstage files", () => unstageFiles(root, ["."]))}
+        />
+      ) : null}
+      <Action title="Reload" icon={Icon.ArrowClockwise} shortcut={{ modifiers: ["cmd"], key: "r" }} onAction={reload} />
+    </>
+  );
+
+  function fileItem(entry: StatusEntry, inIndex: boolean) {
+    const absolutePath = path.join(root, entry.path);
+    return (
+      <List.Item
+        key={`${inIndex ? "staged" : "unstaged"}-${entry.path}`}
+        title={entry.path}
+        subtitle={entry.origPath ? `from ${entry.origPath}` : undefined}
+        icon={inIndex ? { source: Icon.CheckCircle, tintColor: Color.Green } : Icon.Circle}
+        accessories={[statusTag(inIndex ? entry.staged : entry.unstaged)]}
+        actions={
+          <ActionPanel>
+            {inIndex ? (
+              <Action
+                title="Unstage File"
+                icon={Icon.MinusCircle}
+                onAction={() => runGit("Couldn't unstage file", () => unstageFiles(root, entryPaths(entry)))}
+              />
+            ) : (
+              <Action
+                title="Stage File"
+                icon={Icon.PlusCircle}
+                onAction={() => runGit("Couldn't stage file", () => stageFiles(root, [entry.path]))}
+              />
+            )}
+            {commitAction}
+            {sharedActions}
+            <Action.Open title="Open File" target={absolutePath} shortcut={{ modifiers: ["cmd"], key: "o" }} />
+            <Action.ShowInFinder path={absolutePath} />
+          </ActionPanel>
+        }
+      />
+    );
+  }
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={state ? `Commit on ${state.branch}` : undefined}
+      searchBarPlaceholder="Filter changed files…"
+      searchBarAccessory={
+        <List.Dropdown tooltip="Repository" storeValue onChange={setRepoId}>
+          {profiles.map((p) => (
+            <List.Dropdown.Item key={p.id} value={p.id} title={p.name} />
+          ))}
+        </List.Dropdown>
+      }
+    >
+      {state && !state.entries.length ? (
+        <List.EmptyView
+          icon={Icon.CheckCircle}
+          title="Nothing to commit"
+          description={`${state.branch} is clean.`}
+          actions={<ActionPanel>{sharedActions}</ActionPanel>}
+        />
+      ) : null}
+      <List.Section title="Staged Changes" subtitle={staged.length ? String(staged.length) : undefined}>
+        {staged.map((entry) => fileItem(entry, true))}
+      </List.Section>
+      <List.Section title="Changes" subtitle={unstaged.length ? String(unstaged.length) : undefined}>
+        {unstaged.map((entry) => fileItem(entry, false))}
+      </List.Section>
+    </List>
+  );
+}
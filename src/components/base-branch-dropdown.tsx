@@ -0,0 +1,44 @@
+import { Form } from "@raycast/api";
+import { useCachedPromise } from "@raycast/utils";
+import { listRemoteBranches } from "../lib/git";
+import { RepoProfile } from "../lib/repos";
+import { CURRENT_BASE_BRANCH } from "../lib/worker-branch";
+
+type Props = {
+  repo: RepoProfile;
+  info?: string;
+};
+
+// The repository's usual bases are pinned on top; every other branch of origin (as of the last fetch) follows.
+export function BaseBranchDropdown({ repo, info }: Props) {
+  const { data: remoteBranches = [], isLoading } = useCachedPromise(
+    (directory: string) => listRemoteBranches(directory),
+    [repo.directory],
+    { execute: !!repo.directory },
+  );
+  const others = remoteBranches.filter((b) => !repo.baseBranches.includes(b));
+
+  return (
+    <Form.Dropdown
+      id="baseBranch"
+      key={repo.id}
+      title="🌿 Base Branch"
+      defaultValue={repo.baseBranches[0]}
+      info={info}
+      isLoading={isLoading}
+      filtering
+    >
+      <Form.Dropdown.Section title="Pinned">
+        {repo.baseBranches.map((b) => (
+          <Form.Dropdown.Item key={b} value={b} title={b} />
+        ))}
+        <Form.Dropdown.Item value={CURRENT_BASE_BRANCH} title="current (stay on current branch)" />
+      </Form.Dropdown.Section>
+      <Form.Dropdown.Section title="Remote Branches">
+        {others.map((b) => (
+          <Form.Dropdown.Item key={b} value={b} title={b} />
+        ))}
+      </Form.Dropdown.Section>
+    </Form.Dropdown>
+  );
+}
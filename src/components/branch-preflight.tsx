@@ -0,0 +1,72 @@
+import { Action, ActionPanel, Color, Icon, List, useNavigation } from "@raycast/api";
+import { DirtyStrategy, PreflightReport } from "../lib/worker-branch";
+
+export type PreflightResolution = {
+  dirtyStrategy?: DirtyStrategy;
+  switchIfExists: boolean;
+};
+
+type BranchPreflightProps = {
+  report: PreflightReport;
+  onResolve: (resolution: PreflightResolution) => Promise<void>;
+};
+
+export function BranchPreflight({ report, onResolve }: BranchPreflightProps) {
+  const { pop } = useNavigation();
+  const exists = report.existsLocally || report.existsOnRemote;
+  const isDirty = report.dirtyFiles.length > 0;
+  const target = exists ? "Switch to Existing Branch" : "Create Branch";
+
+  const actions = (
+    <ActionPanel>
+      {isDirty ? (
+        <>
+          <Action
+            title={`Stash Changes and ${target}`}
+            icon={Icon.Tray}
+            onAction={() => onResolve({ dirtyStrategy: "stash", switchIfExists: exists })}
+          />
+          <Action
+            title={`Carry Changes over and ${target}`}
+            icon={Icon.ArrowRight}
+            onAction={() => onResolve({ dirtyStrategy: "carry", switchIfExists: exists })}
+          />
+        </>
+      ) : (
+        <Action title={target} icon={Icon.ArrowRight} onAction={() => onResolve({ switchIfExists: exists })} />
+      )}
+      <Action title="Abort" icon={Icon.XMarkCircle} style={Action.Style.Destructive} onAction={pop} />
+    </ActionPanel>
+  );
+
+  return (
+    <List navigationTitle="Before Creating Branch" searchBarPlaceholder="Search changed files…">
+      {exists ? (
+        <List.Section title="Branch Already Exists">
+          <List.Item
+            title={report.branchName}
+            icon={{ source: Icon.Warning, tintColor: Color.Orange }}
+            accessories={[
+              ...(report.existsLocally ? [{ tag: "local" }] : []),
+              ...(report.existsOnRemote ? [{ tag: "origin" }] : []),
+            ]}
+            actions={actions}
+          />
+        </List.Section>
+      ) : null}
+      {isDirty ? (
+        <List.Section title="Uncommitted Changes" subtitle={`${report.dirtyFiles.length}`}>
+          {report.dirtyFiles.map((file) => (
+            <List.Item
+              key={file.path}
+              title={file.path}
+              icon={Icon.Document}
+              accessories={[{ tag: { value: file.status, color: Color.Yellow } }]}
+              actions={actions}
+            />
+          ))}
+        </List.Section>
+      ) : null}
+    </List>
+  );
+}
@@ -0,0 +1,101 @@
+import { List } from "@raycast/api";
+import { useCachedPromise } from "@raycast/utils";
+import { adfToMarkdown } from "../lib/adf";
+import {
+  JiraCredentials,
+  JiraIssueDetail as JiraIssueDetailData,
+  fetchIssueDetail,
+  issueBrowseUrl,
+  jiraCredentialsPreferenceNames,
+} from "../lib/jira";
+import { issueStatusColor } from "../lib/jira-status";
+
+const LATEST_COMMENTS = 3;
+
+function issueMarkdown(issue: JiraIssueDetailData): string {
+  const description = adfToMarkdown(issue.fields.description);
+  const comments = (issue.fields.comment?.comments ?? []).slice(-LATEST_COMMENTS).reverse();
+  return [
+    `## ${issue.key} ${issue.fields.summary}`,
+    description || "_No description._",
+    ...(comments.length
+      ? [
+          "---",
+          `### Latest Comments`,
+          ...comments.map(
+            (c) =>
+              `**${c.author?.displayName ?? "Someone"}** · ${new Date(c.created).toLocaleString()}\n\n${adfToMarkdown(c.body)}`,
+          ),
+        ]
+      : []),
+  ].join("\n\n");
+}
+
+export function JiraIssueDetail({ creds, issueKey }: { creds: JiraCredentials | null; issueKey: string }) {
+  if (!creds) {
+    return (
+      <List.Item.Detail markdown={`## ${issueKey}\n\nSet ${jiraCredentialsPreferenceNames()} to see issue details.`} />
+    );
+  }
+  return <LoadedJiraIssueDetail creds={creds} issueKey={issueKey} />;
+}
+
+// Loaded on selection and cached by useCachedPromise, so scrolling back over branches is instant.
+// The cache is keyed by issue key only: credentials never end up in it.
+function LoadedJiraIssueDetail({ creds, issueKey }: { creds: JiraCredentials; issueKey: string }) {
+  const { data, isLoading, error } = useCachedPromise((key: string) => fetchIssueDetail(creds, key), [issueKey], {
+    keepPreviousData: false,
+  });
+
+  if (error && !data) {
+    return <List.Item.Detail markdown={`## ${issueKey}\n\nCouldn't load the issue: ${error.message}`} />;
+  }
+  if (!data) return <List.Item.Detail isLoading={isLoading} markdown={`## ${issueKey}`} />;
+
+  const links = data.fields.issuelinks ?? [];
+  return (
+    <List.Item.Detail
+      isLoading={isLoading}
+      markdown={issueMarkdown(data)}
+      metadata={
+        <List.Item.Detail.Metadata>
+          <List.Item.Detail.Metadata.Link title="Issue" text={data.key} target={issueBrowseUrl(data.key)} />
+          {data.fields.status ? (
+            <List.Item.Detail.Metadata.TagList title="Status">
+              <List.Item.Detail.Metadata.TagList.Item text={data.fields.status.name} color={issueStatusColor(data)} />
+            </List.Item.Detail.Metadata.TagList>
+          ) : null}
+          <List.Item.Detail.Metadata.Label title="Assignee" text={data.fields.assignee?.displayName ?? "Unassigned"} />
+          {data.fields.priority ? (
+            <List.Item.Detail.Metadata.Label
+              title="Priority"
+              text={data.fields.priority.name}
+              icon={data.fields.priority.iconUrl}
+            />
+          ) : null}
+          {data.fields.issuetype ? (
+            <List.Item.Detail.Metadata.Label
+              title="Type"
+              text={data.fields.issuetype.name}
+              icon={data.fields.issuetype.iconUrl}
+            />
+          ) : null}
+          {links.length ? <List.Item.Detail.Metadata.Separator /> : null}
+          {links.map((link, i) => {
+            const linked = link.outwardIssue ?? link.inwardIssue;
+            if (!linked) return null;
+            const relation = link.outwardIssue ? link.type.outward : link.type.inward;
+            return (
+              <List.Item.Detail.Metadata.Link
+                key={`${linked.key}-${i}`}
+                title={relation}
+                text={`${linked.key} ${linked.fields.summary}`}
+                target={issueBrowseUrl(linked.key)}
+              />
+            );
+          })}
+        </List.Item.Detail.Metadata>
+      }
+    />
+  );
+}
@@ -0,0 +1,57 @@
+import { Action, ActionPanel, Icon, Keyboard, Toast, showToast } from "@raycast/api";
+import { useState } from "react";
+import { JiraCredentials, JiraTransition, fetchTransitions, transitionIssue } from "../lib/jira";
+
+type Props = {
+  creds: JiraCredentials;
+  issueKey: string;
+  shortcut?: Keyboard.Shortcut;
+  onTransitioned: () => Promise<void>;
+};
+
+// Transitions depend on the issue's workflow, so they are only fetched when the submenu is opened.
+export function JiraTransitionSubmenu({ creds, issueKey, shortcut, onTransitioned }: Props) {
+  const [transitions, setTransitions] = useState<JiraTransition[] | null>(null);
+
+  async function load() {
+    if (transitions) return;
+    try {
+      setTransitions(await fetchTransitions(creds, issueKey));
+    } catch (e) {
+      setTransitions([]);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Couldn't load transitions",
+        message: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+
+  async function handleTransition(transition: JiraTransition) {
+    const toast = await showToast({ style: Toast.Style.Animated, title: `Moving ${issueKey}…` });
+    try {
+      await transitionIssue(creds, issueKey, transition.id);
+      toast.style = Toast.Style.Success;
+      toast.title = `${issueKey} → ${transition.to.name}`;
+      await onTransitioned();
+    } catch (e) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Couldn't transition issue";
+      toast.message = e instanceof Error ? e.message : String(e);
+    }
+  }
+
+  return (
+    <ActionPanel.Submenu
+      title="Transition Issue"
+      icon={Icon.ArrowRight}
+      shortcut={shortcut}
+      isLoading={transitions === null}
+      onOpen={() => void load()}
+    >
+      {(transitions ?? []).map((t) => (
+        <Action key={t.id} title={t.name} onAction={() => handleTransition(t)} />
+      ))}
+    </ActionPanel.Submenu>
+  );
+}
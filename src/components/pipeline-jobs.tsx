@@ -0,0 +1,295 @@
+import { Action, ActionPanel, Alert, Color, Detail, Icon, List, Toast, confirmAlert, showToast } from "@raycast/api";
+import { useEffect, useMemo, useState } from "react";
+import {
+  GitLabContext,
+  GitLabJob,
+  GitLabPipeline,
+  cancelPipeline,
+  createPipeline,
+  fetchJobTrace,
+  fetchLatestPipeline,
+  fetchPipelineJobs,
+  pipelinesUrlForBranch,
+  retryJob,
+  retryPipeline,
+} from "../lib/gitlab";
+import { formatDuration, isPipelineCancelable, pipelineStatusIcon, pipelineStatusLabel } from "../lib/pipeline-status";
+
+const TRACE_TAIL_LINES = 80;
+const MAX_FAILURE_LINES = 40;
+
+// Lines we consider worth surfacing from a failed job trace.
+const FAILURE_MARKERS = [
+  /\berror\b/i,
+  /\bfailed\b/i,
+  /\bfailure\b/i,
+  /\bfatal\b/i,
+  /\bpanic\b/i,
+  /\bexception\b/i,
+  /\bassert(ion)?\b/i,
+  /\btimed? ?out\b/i,
+  /exit code [1-9]/i,
+  /✕|✗|×/,
+];
+
+type PipelineJobsProps = {
+  gitlab: GitLabContext;
+  branch: string;
+};
+
+type JobDetailProps = {
+  gitlab: GitLabContext;
+  job: GitLabJob;
+  onRetried: () => void;
+};
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+// ANSI color codes: ESC [ params letter. Built from the char code so the pattern holds no control character.
+const ANSI_ESCAPE = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*[A-Za-z]`, "g");
+
+function cleanTrace(trace: string): string {
+  return (
+    trace
+      .replace(ANSI_ESCAPE, "")
+      // GitLab collapsible section markers
+      .replace(/section_(start|end):\d+:[^\r\n]*?\r/g, "")
+      .replace(/\r\n?/g, "\n")
+  );
+}
+
+function traceTail(lines: string[]): string[] {
+  return lines.slice(-TRACE_TAIL_LINES);
+}
+
+function failureLines(lines: string[]): string[] {
+  return lines.filter((line) => FAILURE_MARKERS.some((re) => re.test(line))).slice(-MAX_FAILURE_LINES);
+}
+
+// A fence longer than any backtick run in the text, so a log that prints ``` can't close it early.
+function codeBlock(text: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+  return `${fence}\n${text}\n${fence}`;
+}
+
+function groupJobsByStage(jobs: GitLabJob[]): { stage: string; jobs: GitLabJob[] }[] {
+  // The API returns newest jobs first; stage order is the order jobs were created in.
+  const ordered = [...jobs].sort((a, b) => a.id - b.id);
+  const stages = new Map<string, GitLabJob[]>();
+  for (const job of ordered) {
+    const list = stages.get(job.stage) ?? [];
+    list.push(job);
+    stages.set(job.stage, list);
+  }
+  return [...stages.entries()].map(([stage, stageJobs]) => ({ stage, jobs: stageJobs }));
+}
+
+async function runPipelineAction(title: string, action: () => Promise<unknown>, onDone: () => void) {
+  try {
+    await showToast({ style: Toast.Style.Animated, title: `${title}…` });
+    await action();
+    await showToast({ style: Toast.Style.Success, title: `${title}: done` });
+    onDone();
+  } catch (e) {
+    await showToast({ style: Toast.Style.Failure, title: `${title} failed`, message: errorMessage(e) });
+  }
+}
+
+export function PipelineJobs({ gitlab, branch }: PipelineJobsProps) {
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [pipeline, setPipeline] = useState<GitLabPipeline | null>(null);
+  const [jobs, setJobs] = useState<GitLabJob[]>([]);
+
+  async function reload() {
+    setIsLoading(true);
+    try {
+      const latest = await fetchLatestPipeline(gitlab, branch);
+      setPipeline(latest);
+      setJobs(latest ? await fetchPipelineJobs(gitlab, latest.id) : []);
+    } catch (e) {
+      await showToast({ style: Toast.Style.Failure, title: "Couldn't load pipeline jobs", message: errorMessage(e) });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void reload();
+  }, [gitlab.token, gitlab.projectPath, branch]);
+
+  const stages = useMemo(() => groupJobsByStage(jobs), [jobs]);
+  const hasFailedJobs = jobs.some((j) => j.status === "failed");
+
+  function pipelineActions() {
+    return (
+      <>
+        {pipeline && hasFailedJobs ? (
+          <Action
+            title="Retry Failed Jobs"
+            icon={Icon.ArrowClockwise}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+            onAction={() => runPipelineAction("Retry failed jobs", () => retryPipeline(gitlab, pipeline.id), reload)}
+          />
+        ) : null}
+        {pipeline && isPipelineCancelable(pipeline.status) ? (
+          <Action
+            title="Cancel Pipeline"
+            icon={Icon.Stop}
+            style={Action.Style.Destructive}
+            shortcut={{ modifiers: ["ctrl"], key: "x" }}
+            onAction={async () => {
+              const confirmed = await confirmAlert({
+                title: "Cancel pipeline?",
+                message: `Pipeline #${pipeline.id} on ${branch} will be canceled.`,
+                primaryAction: { title: "Cancel Pipeline", style: Alert.ActionStyle.Destructive },
+              });
+              if (!confirmed) return;
+              await runPipelineAction("Cancel pipeline", () => cancelPipeline(gitlab, pipeline.id), reload);
+            }}
+          />
+        ) : null}
+        <Action
+          title="Run New Pipeline"
+          icon={Icon.Play}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "n" }}
+          onAction={() => runPipelineAction("Run new pipeline", () => createPipeline(gitlab, branch), reload)}
+        />
+        {pipeline ? <Action.OpenInBrowser title="Open Pipeline in Browser" url={pipeline.web_url} /> : null}
+        <Action.OpenInBrowser title="Open Branch Pipelines" url={pipelinesUrlForBranch(branch, gitlab.projectPath)} />
+        <Action
+          title="Reload Jobs"
+          icon={Icon.ArrowClockwise}
+          shortcut={{ modifiers: ["cmd"], key: "r" }}
+          onAction={reload}
+        />
+      </>
+    );
+  }
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={pipeline ? `Pipeline #${pipeline.id} — ${branch}` : branch}
+      searchBarPlaceholder="Search job…"
+    >
+      {!isLoading && !pipeline ? (
+        <List.EmptyView
+          title="No pipeline for this branch"
+          description={`GitLab has no pipeline for ${branch} yet.`}
+          icon={Icon.Circle}
+          actions={<ActionPanel>{pipelineActions()}</ActionPanel>}
+        />
+      ) : null}
+      {stages.map(({ stage, jobs: stageJobs }) => (
+        <List.Section key={stage} title={stage} subtitle={`${stageJobs.length}`}>
+          {stageJobs.map((job) => (
+            <List.Item
+              key={job.id}
+              title={job.name}
+              icon={pipelineStatusIcon(job.status)}
+              accessories={[
+                ...(job.allow_failure && job.status === "failed"
+                  ? [{ tag: { value: "allowed to fail", color: Color.Orange } }]
+                  : []),
+                { text: pipelineStatusLabel(job.status) },
+                ...(typeof job.duration === "number" ? [{ text: formatDuration(job.duration) }] : []),
+              ]}
+              actions={
+                <ActionPanel>
+                  {job.status === "failed" ? (
+                    <Action.Push
+                      title="Show Failure Details"
+                      icon={Icon.Bug}
+                      target={<JobDetail gitlab={gitlab} job={job} onRetried={reload} />}
+                    />
+                  ) : null}
+                  <Action.OpenInBrowser title="Open Job in Browser" url={job.web_url} />
+                  <Action
+                    title="Retry Job"
+                    icon={Icon.RotateClockwise}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "j" }}
+                    onAction={() => runPipelineAction(`Retry ${job.name}`, () => retryJob(gitlab, job.id), reload)}
+                  />
+                  <ActionPanel.Section title="Pipeline">{pipelineActions()}</ActionPanel.Section>
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
+
+function JobDetail({ gitlab, job, onRetried }: JobDetailProps) {
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [trace, setTrace] = useState<string>("");
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setTrace(cleanTrace(await fetchJobTrace(gitlab, job.id)));
+      } catch (e) {
+        setError(errorMessage(e));
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+  }, [gitlab.token, gitlab.projectPath, job.id]);
+
+  const markdown = useMemo(() => {
+    if (isLoading) return `# ${job.name}\n\nLoading job trace…`;
+    if (error) return `# ${job.name}\n\nCouldn't load the job trace:\n\n${codeBlock(error)}`;
+
+    const lines = trace.split("\n");
+    const failures = failureLines(lines);
+    return [
+      `# ${job.name}`,
+      job.failure_reason ? `**Failure reason:** \`${job.failure_reason}\`` : "",
+      "## Failure markers",
+      failures.length ? codeBlock(failures.join("\n")) : "_No lines matched common failure markers._",
+      `## Last ${TRACE_TAIL_LINES} lines`,
+      codeBlock(traceTail(lines).join("\n")),
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+  }, [isLoading, error, trace, job.name, job.failure_reason]);
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      navigationTitle={`${job.stage} › ${job.name}`}
+      markdown={markdown}
+      metadata={
+        <Detail.Metadata>
+          <Detail.Metadata.TagList title="Status">
+            <Detail.Metadata.TagList.Item
+              text={pipelineStatusLabel(job.status)}
+              color={pipelineStatusIcon(job.status).tintColor}
+            />
+          </Detail.Metadata.TagList>
+          <Detail.Metadata.Label title="Stage" text={job.stage} />
+          {typeof job.duration === "number" ? (
+            <Detail.Metadata.Label title="Duration" text={formatDuration(job.duration)} />
+          ) : null}
+          <Detail.Metadata.Link title="Job" target={job.web_url} text={`#${job.id}`} />
+        </Detail.Metadata>
+      }
+      actions={
+        <ActionPanel>
+          <Action
+            title="Retry Job"
+            icon={Icon.RotateClockwise}
+            onAction={() => runPipelineAction(`Retry ${job.name}`, () => retryJob(gitlab, job.id), onRetried)}
+          />
+          <Action.OpenInBrowser title="Open Job in Browser" url={job.web_url} />
+          <Action.CopyToClipboard title="Copy Trace Tail" content={traceTail(trace.split("\n")).join("\n")} />
+        </ActionPanel>
+      }
+    />
+  );
+}
@@ -0,0 +1,284 @@
+import {
+  Action,
+  ActionPanel,
+  Form,
+  Icon,
+  Toast,
+  getPreferenceValues,
+  openExtensionPreferences,
+  showToast,
+} from "@raycast/api";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { BaseBranchDropdown } from "./components/base-branch-dropdown";
+import { useRepoProfiles } from "./hooks/use-repo-profiles";
+import { useRunCreateBranch } from "./hooks/use-run-create-branch";
+import {
+  DEFAULT_JIRA_BOARD_URL,
+  DEFAULT_JIRA_START_STATUS,
+  JiraAuthMode,
+  JiraBoardSprint,
+  JiraIssue,
+  JiraIssueType,
+  JiraPriority,
+  createIssue,
+  fetchCreateIssueTypes,
+  fetchMyself,
+  fetchOpenEpics,
+  fetchOpenSprints,
+  fetchPriorities,
+  getJiraCredentials,
+  jiraCredentialsPreferenceNames,
+  normalizeProjectKey,
+  parseBoardId,
+} from "./lib/jira";
+import { DEFAULT_REPO_ID } from "./lib/repos";
+import { BaseBranch, CURRENT_BASE_BRANCH } from "./lib/worker-branch";
+
+type Preferences = {
+  gitUsername: string;
+  jiraEmail?: string;
+  jiraApiToken?: string;
+  jiraAuthMode?: JiraAuthMode;
+  jiraDefaultProjectKey?: string;
+  jiraBoardUrl?: string;
+  jiraStartStatus?: string;
+};
+
+const NONE = "none";
+const DEFAULT_ISSUE_TYPE = "task";
+
+type CreatedIssue = {
+  key: string;
+  summary: string;
+};
+
+export default function Command() {
+  const prefs = getPreferenceValues<Preferences>();
+  const creds = useMemo(() => getJiraCredentials(prefs), [prefs.jiraEmail, prefs.jiraApiToken, prefs.jiraAuthMode]);
+  const projectKey = normalizeProjectKey(prefs.jiraDefaultProjectKey);
+  const boardId = parseBoardId(String(prefs.jiraBoardUrl || "").trim() || DEFAULT_JIRA_BOARD_URL);
+  const startStatus = String(prefs.jiraStartStatus || "").trim() || DEFAULT_JIRA_START_STATUS;
+  const runCreateBranch = useRunCreateBranch(startStatus);
+
+  const { profiles, isLoading: isLoadingProfiles } = useRepoProfiles();
+  const [repoId, setRepoId] = useState<string>(DEFAULT_REPO_ID);
+  const repo = useMemo(() => profiles.find((p) => p.id === repoId) ?? profiles[0], [profiles, repoId]);
+
+  const [isLoadingJira, setIsLoadingJira] = useState<boolean>(true);
+  const [issueTypes, setIssueTypes] = useState<JiraIssueType[]>([]);
+  const [priorities, setPriorities] = useState<JiraPriority[]>([]);
+  const [epics, setEpics] = useState<JiraIssue[]>([]);
+  const [sprints, setSprints] = useState<JiraBoardSprint[]>([]);
+  const [issueTypeId, setIssueTypeId] = useState<string>("");
+  const [priorityId, setPriorityId] = useState<string>("");
+  const [sprintId, setSprintId] = useState<string>(NONE);
+  // Once the issue exists, submitting again (e.g. after a failed checkout) must only retry the branch.
+  const [created, setCreated] = useState<CreatedIssue | null>(null);
+  const isSubmittingRef = useRef<boolean>(false);
+
+  useEffect(() => {
+    if (!creds) {
+      setIsLoadingJira(false);
+      return;
+    }
+
+    // Each list is optional for the form, so one failing endpoint must not hide the others.
+    async function load<T>(what: string, fetcher: () => Promise<T>, apply: (value: T) => void) {
+      try {
+        apply(await fetcher());
+      } catch (e) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: `Couldn't load ${what}`,
+          message: e instanceof Error ? e.message : String(e),
+        });
+      }
+    }
+
+    void Promise.all([
+      load(
+        "issue types",
+        () => fetchCreateIssueTypes(creds, projectKey),
+        (types) => {
+          setIssueTypes(types);
+          setIssueTypeId((types.find((t) => t.name.toLowerCase() === DEFAULT_ISSUE_TYPE) ?? types[0])?.id ?? "");
+        },
+      ),
+      load(
+        "priorities",
+        () => fetchPriorities(creds),
+        (list) => {
+          setPriorities(list);
+          setPriorityId(list.find((p) => p.isDefault)?.id ?? "");
+        },
+      ),
+      load("epics", () => fetchOpenEpics(creds, projectKey), setEpics),
+      boardId
+        ? load(
+            "sprints",
+            () => fetchOpenSprints(creds, boardId),
+            (list) => {
+              setSprints(list);
+              const active = list.find((s) => s.state === "active");
+              setSprintId(active ? String(active.id) : NONE);
+            },
+          )
+        : Promise.resolve(),
+    ]).finally(() => setIsLoadingJira(false));
+  }, [creds, projectKey, boardId]);
+
+  async function handleSubmit(values: Form.Values) {
+    if (isSubmittingRef.current) return;
+
+    const workerDir = String(repo.directory || "").trim();
+    const gitUsername = String(prefs.gitUsername || "")
+      .trim()
+      .replace(/\s+/g, "");
+    if (!creds || !workerDir || !gitUsername) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Missing Preferences",
+        message: `Set ${jiraCredentialsPreferenceNames()}, the repository directory and Git Username in extension preferences.`,
+      });
+      await openExtensionPreferences();
+      return;
+    }
+
+    const summary = String(values.summary || "").trim();
+    if (!summary) {
+      await showToast({ style: Toast.Style.Failure, title: "Summary is required" });
+      return;
+    }
+    const issueType = issueTypes.find((t) => t.id === issueTypeId);
+    if (!created && !issueType) {
+      await showToast({ style: Toast.Style.Failure, title: "Issue type is required" });
+      return;
+    }
+
+    isSubmittingRef.current = true;
+    try {
+      let issue = created;
+      if (!issue) {
+        const toast = await showToast({ style: Toast.Style.Animated, title: `Creating ${projectKey} issue…` });
+        try {
+          const me = values.assignToMe ? await fetchMyself(creds) : null;
+          const key = await createIssue(creds, {
+            projectKey,
+            summary,
+            issueTypeId: issueType!.id,
+            priorityId: priorityId || undefined,
+            description: String(values.description || ""),
+            parentKey: values.parent && values.parent !== NONE ? String(values.parent) : undefined,
+            sprintId: sprintId !== NONE ? Number(sprintId) : undefined,
+            assignee: me ?? undefined,
+          });
+          issue = { key, summary };
+          setCreated(issue);
+        } catch (e) {
+          toast.style = Toast.Style.Failure;
+          toast.title = "Failed to create Jira issue";
+          toast.message = e instanceof Error ? e.message : String(e);
+          return;
+        }
+      }
+
+      await runCreateBranch(
+        {
+          jiraId: issue.key,
+          description: issue.summary,
+          issueType: issueType?.name,
+          baseBranch: (values.baseBranch as BaseBranch) || repo.baseBranches[0] || CURRENT_BASE_BRANCH,
+          workerDir,
+          gitUsername,
+          worktree: !!values.worktree,
+        },
+        {
+          transitionIssue: !!values.transitionIssue,
+          // Assignment already happened when the issue was created.
+          assignToMe: false,
+          commentBranch: !!values.commentBranch,
+        },
+      );
+    } finally {
+      isSubmittingRef.current = false;
+    }
+  }
+
+  return (
+    <Form
+      isLoading={isLoadingProfiles || isLoadingJira}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={created ? `Create Branch for ${created.key}` : "Create Issue and Branch"}
+            icon={Icon.Plus}
+            onSubmit={handleSubmit}
+          />
+          <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+        </ActionPanel>
+      }
+    >
+      {!creds ? (
+        <Form.Description
+          text={`Set ${jiraCredentialsPreferenceNames()} in the extension preferences to create issues.`}
+        />
+      ) : null}
+      {created ? (
+        <Form.Description
+          title="🎫 Created"
+          text={`${created.key} already exists. Submitting again only creates its branch.`}
+        />
+      ) : null}
+      <Form.TextField id="summary" title="📝 Summary" placeholder={`New ${projectKey} issue`} />
+      <Form.Dropdown id="issueType" title="🏷️ Issue Type" value={issueTypeId} onChange={setIssueTypeId}>
+        {issueTypes.map((t) => (
+          <Form.Dropdown.Item key={t.id} value={t.id} title={t.name} icon={t.iconUrl} />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown id="priority" title="⚡ Priority" value={priorityId} onChange={setPriorityId}>
+        <Form.Dropdown.Item value="" title="Project default" />
+        {priorities.map((p) => (
+          <Form.Dropdown.Item key={p.id} value={p.id} title={p.name} icon={p.iconUrl} />
+        ))}
+      </Form.Dropdown>
+      <Form.TextArea
+        id="description"
+        title="📄 Description"
+        placeholder="Optional. Blank lines start a new paragraph."
+      />
+      <Form.Dropdown id="parent" title="🗂️ Epic" defaultValue={NONE}>
+        <Form.Dropdown.Item value={NONE} title="No epic" />
+        {epics.map((e) => (
+          <Form.Dropdown.Item key={e.key} value={e.key} title={`${e.key} ${e.fields.summary}`} />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown
+        id="sprint"
+        title="🏃 Sprint"
+        value={sprintId}
+        onChange={setSprintId}
+        info="Sprints of the board from the Jira Board URL preference."
+      >
+        <Form.Dropdown.Item value={NONE} title="Backlog" />
+        {sprints.map((s) => (
+          <Form.Dropdown.Item
+            key={s.id}
+            value={String(s.id)}
+            title={s.state === "active" ? `${s.name} (active)` : s.name}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.Checkbox id="assignToMe" label="Assign to me" defaultValue={true} storeValue />
+      <Form.Separator />
+      <Form.Dropdown id="repo" title="📁 Repository" storeValue onChange={setRepoId}>
+        {profiles.map((p) => (
+          <Form.Dropdown.Item key={p.id} value={p.id} title={p.name} />
+        ))}
+      </Form.Dropdown>
+      <BaseBranchDropdown repo={repo} info="Branch to base from when creating the new branch." />
+      <Form.Checkbox id="worktree" label="Create as worktree" defaultValue={false} storeValue />
+      <Form.Checkbox id="transitionIssue" label={`Move issue to "${startStatus}"`} defaultValue={true} storeValue />
+      <Form.Checkbox id="commentBranch" label="Comment with the branch name" defaultValue={false} storeValue />
+    </Form>
+  );
+}
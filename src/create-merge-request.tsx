@@ -0,0 +1,284 @@
+import {
+  Action,
+  ActionPanel,
+  Detail,
+  Form,
+  Icon,
+  Toast,
+  getPreferenceValues,
+  open,
+  openExtensionPreferences,
+  popToRoot,
+  showHUD,
+  showToast,
+} from "@raycast/api";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useRepoProfiles } from "./hooks/use-repo-profiles";
+import { humanizeSlug, parseBranchName } from "./lib/branch-name";
+import { getCurrentRef, getUpstream, gitErrorMessage, pushWithUpstream } from "./lib/git";
+import {
+  GitLabContext,
+  GitLabLabel,
+  GitLabMergeRequest,
+  createMergeRequest,
+  fetchProjectLabels,
+  fetchRemoveSourceBranchDefault,
+  findOpenMergeRequest,
+  findUserByUsername,
+} from "./lib/gitlab";
+import { fetchJiraSummary, getJiraCredentials, issueBrowseUrl } from "./lib/jira";
+import { DEFAULT_REPO_ID, resolveGitLabProject } from "./lib/repos";
+
+type Preferences = {
+  gitlabToken?: string;
+  jiraEmail?: string;
+  jiraApiToken?: string;
+};
+
+type MergeRequestFormValues = {
+  title: string;
+  targetBranch: string;
+  draft: boolean;
+  labels: string[];
+  reviewers: string;
+  description: string;
+  removeSourceBranch: boolean;
+};
+
+async function defaultTitle(branch: string, prefs: Preferences): Promise<string> {
+  const { issueKey, slug } = parseBranchName(branch);
+  if (!issueKey) return humanizeSlug(slug) || branch;
+
+  const creds = getJiraCredentials(prefs);
+  if (creds) {
+    try {
+      const summary = await fetchJiraSummary({ jiraId: issueKey, ...creds });
+      return `[${issueKey}] ${summary}`;
+    } catch {
+      // Fall back to the branch description; the title stays editable.
+    }
+  }
+  return `[${issueKey}] ${humanizeSlug(slug)}`.trim();
+}
+
+function parseUsernames(input: string): string[] {
+  return String(input || "")
+    .split(/[\s,]+/)
+    .map((u) => u.trim().replace(/^@/, ""))
+    .filter(Boolean);
+}
+
+export default function Command() {
+  const prefs = getPreferenceValues<Preferences>();
+  const { profiles } = useRepoProfiles();
+  const [repoId, setRepoId] = useState<string>(DEFAULT_REPO_ID);
+  const repo = useMemo(() => profiles.find((p) => p.id === repoId) ?? profiles[0], [profiles, repoId]);
+  const workerDir = repo.directory;
+  const gitlabToken = String(prefs.gitlabToken || "").trim();
+
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [gitlab, setGitlab] = useState<GitLabContext | null>(null);
+  const [branch, setBranch] = useState<string>("");
+  const [existingMr, setExistingMr] = useState<GitLabMergeRequest | null>(null);
+  const [labels, setLabels] = useState<GitLabLabel[]>([]);
+  const [title, setTitle] = useState<string>("");
+  const [description, setDescription] = useState<string>("");
+  const [removeSourceBranch, setRemoveSourceBranch] = useState<boolean>(true);
+  const reqIdRef = useRef<number>(0);
+
+  useEffect(() => {
+    const reqId = ++reqIdRef.current;
+    setIsLoading(true);
+    setGitlab(null);
+    setBranch("");
+    setLabels([]);
+    (async () => {
+      if (!workerDir || !gitlabToken) {
+        setIsLoading(false);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Missing Preferences",
+          message: "Set Worker Directory and GitLab Personal Access Token in extension preferences.",
+        });
+        await openExtensionPreferences();
+        return;
+      }
+
+      try {
+        const [currentRef, projectPath] = await Promise.all([getCurrentRef(workerDir), resolveGitLabProject(repo)]);
+        if (reqId !== reqIdRef.current) return;
+        const target: GitLabContext = { token: gitlabToken, projectPath };
+        setGitlab(target);
+        setBranch(currentRef);
+
+        const existing = await findOpenMergeRequest(target, currentRef);
+        if (reqId !== reqIdRef.current) return;
+        if (existing) {
+          setExistingMr(existing);
+          await open(existing.web_url);
+          return;
+        }
+
+        const [projectLabels, removeByDefault, prefilledTitle] = await Promise.all([
+          fetchProjectLabels(target).catch(() => [] as GitLabLabel[]),
+          fetchRemoveSourceBranchDefault(target).catch(() => true),
+          defaultTitle(currentRef, prefs),
+        ]);
+        if (reqId !== reqIdRef.current) return;
+        setLabels(projectLabels);
+        setRemoveSourceBranch(removeByDefault);
+        setTitle(prefilledTitle);
+
+        const { issueKey } = parseBranchName(currentRef);
+        if (issueKey) setDescription(`Jira: ${issueBrowseUrl(issueKey)}`);
+      } catch (e) {
+        if (reqId !== reqIdRef.current) return;
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Couldn't prepare merge request",
+          message: gitErrorMessage(e),
+        });
+      } finally {
+        if (reqId === reqIdRef.current) setIsLoading(false);
+      }
+    })();
+  }, [repo.id, workerDir, repo.gitlabProject, gitlabToken]);
+
+  async function handleSubmit(values: MergeRequestFormValues) {
+    const normalizedTitle = String(values.title || "").trim();
+    const targetBranch = values.targetBranch || repo.baseBranches[0] || "prod";
+
+    if (!branch || !gitlab) {
+      await showToast({ style: Toast.Style.Failure, title: "Couldn't determine current branch" });
+      return;
+    }
+    if (branch === targetBranch) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid source branch",
+        message: `You are on ${branch}; check out your feature branch first.`,
+      });
+      return;
+    }
+    if (!normalizedTitle) {
+      await showToast({ style: Toast.Style.Failure, title: "Title is required" });
+      return;
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Creating merge request…" });
+    try {
+      if (!(await getUpstream(workerDir, branch))) {
+        toast.title = `Pushing ${branch}…`;
+        await pushWithUpstream(workerDir, branch);
+      }
+
+      const reviewerIds: number[] = [];
+      for (const username of parseUsernames(values.reviewers)) {
+        const user = await findUserByUsername(gitlab, username);
+        if (!user) throw new Error(`Unknown GitLab user: ${username}`);
+        reviewerIds.push(user.id);
+      }
+
+      toast.title = "Creating merge request…";
+      const mr = await createMergeRequest(gitlab, {
+        sourceBranch: branch,
+        targetBranch,
+        title: normalizedTitle,
+        description: String(values.description || "").trim() || undefined,
+        draft: values.draft,
+        labels: values.labels,
+        reviewerIds,
+        removeSourceBranch: values.removeSourceBranch,
+      });
+
+      await open(mr.web_url);
+      await showHUD(`✅ Created !${mr.iid}: ${mr.title}`);
+      await popToRoot();
+    } catch (e) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to create merge request";
+      toast.message = gitErrorMessage(e);
+    }
+  }
+
+  if (existingMr) {
+    const markdown = [
+      `# !${existingMr.iid} ${existingMr.title}`,
+      `A merge request already exists for \`${existingMr.source_branch}\` → \`${existingMr.target_branch}\`.`,
+      `Opened by **${existingMr.author.name}**.`,
+    ].join("\n\n");
+
+    return (
+      <Detail
+        navigationTitle="Merge Request Already Exists"
+        markdown={markdown}
+        metadata={
+          <Detail.Metadata>
+            <Detail.Metadata.Label title="State" text={existingMr.draft ? "draft" : existingMr.state} />
+            <Detail.Metadata.Label title="Target" text={existingMr.target_branch} />
+            {existingMr.labels.length ? (
+              <Detail.Metadata.TagList title="Labels">
+                {existingMr.labels.map((label) => (
+                  <Detail.Metadata.TagList.Item key={label} text={label} />
+                ))}
+              </Detail.Metadata.TagList>
+            ) : null}
+            <Detail.Metadata.Link title="Merge Request" target={existingMr.web_url} text={`!${existingMr.iid}`} />
+          </Detail.Metadata>
+        }
+        actions={
+          <ActionPanel>
+            <Action.OpenInBrowser title="Open Merge Request" url={existingMr.web_url} />
+            <Action.CopyToClipboard title="Copy URL" content={existingMr.web_url} />
+          </ActionPanel>
+        }
+      />
+    );
+  }
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle={branch ? `Merge Request — ${branch}` : "Create Merge Request"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Create Merge Request" icon={Icon.Upload} onSubmit={handleSubmit} />
+          <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+        </ActionPanel>
+      }
+    >
+      <Form.Dropdown id="repo" title="Repository" storeValue onChange={setRepoId}>
+        {profiles.map((p) => (
+          <Form.Dropdown.Item key={p.id} value={p.id} title={p.name} />
+        ))}
+      </Form.Dropdown>
+      <Form.Description title="Source Branch" text={branch || "…"} />
+      <Form.TextField id="title" title="Title" value={title} onChange={setTitle} placeholder="[SYNTH-1234] Summary" />
+      <Form.Dropdown id="targetBranch" title="Target Branch" key={repo.id}>
+        {repo.baseBranches.map((b) => (
+          <Form.Dropdown.Item key={b} value={b} title={b} />
+        ))}
+      </Form.Dropdown>
+      <Form.Checkbox id="draft" label="Mark as draft" defaultValue={false} />
+      <Form.Checkbox
+        id="removeSourceBranch"
+        label="Delete source branch when merged"
+        info="Defaults to the project's setting."
+        value={removeSourceBranch}
+        onChange={setRemoveSourceBranch}
+      />
+      <Form.TagPicker id="labels" title="Labels">
+        {labels.map((label) => (
+          <Form.TagPicker.Item key={label.id} value={label.name} title={label.name} />
+        ))}
+      </Form.TagPicker>
+      <Form.TextField
+        id="reviewers"
+        title="Reviewers"
+        placeholder="jane.doe, john.smith"
+        info="Comma-separated GitLab usernames."
+      />
+      <Form.TextArea id="description" title="Description" value={description} onChange={setDescription} />
+    </Form>
+  );
+}
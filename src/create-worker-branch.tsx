@@ -2,151 +2,94 @@ import {
     Action,
     ActionPanel,
     Form,
+    LaunchProps,
     getPreferenceValues,
     openExtensionPreferences,
-    popToRoot,
-    showHUD,
     showToast,
     Toast,
   } from "@raycast/api";
   import { useEffect, useMemo, useRef, useState } from "react";
-  import { exec } from "child_process";
-  import util from "util";
-  
-  const asyncExec = util.promisify(exec);
-  
-  const DEFAULT_JIRA_BASE_URL = "https://datadoghq.atlassian.net";
-  const DEFAULT_JIRA_PROJECT_KEY = "SYNTH";
-  
-  type BaseBranch = "prod" | "current" | "waiting-thaw";
+  import {
+    DEFAULT_JIRA_START_STATUS,
+    JiraAuthMode,
+    fetchIssueBasics,
+    fetchJiraSummary,
+    getJiraCredentials,
+    normalizeProjectKey,
+  } from "./lib/jira";
+  import { getBranchNamingOptions } from "./lib/branch-name";
+  import { detectJiraInput, isProbablyUrl, normalizeJiraIdFromInput } from "./lib/jira-input";
+  import { BaseBranch, CURRENT_BASE_BRANCH, CreateWorkerBranchContext, buildBranchName } from "./lib/worker-branch";
+  import { DEFAULT_REPO_ID } from "./lib/repos";
+  import { useRepoProfiles } from "./hooks/use-repo-profiles";
+  import { useRunCreateBranch } from "./hooks/use-run-create-branch";
+  import { BaseBranchDropdown } from "./components/base-branch-dropdown";
   
   type JiraPreferences = {
-    workerDir: string;
     gitUsername: string;
     jiraEmail?: string;
     jiraApiToken?: string;
+    jiraAuthMode?: JiraAuthMode;
     jiraDefaultProjectKey?: string;
+    jiraStartStatus?: string;
   };
 
-  interface FormValues {
-    jira: string;
-    jiraId: string;
-    description: string;
-    baseBranch: BaseBranch;
-  }
-  
-  function normalizeJiraBaseUrl(input: string): string {
-    const trimmed = String(input || "").trim();
-    return trimmed.replace(/\/+$/g, "");
-  }
-
-  function normalizeProjectKey(input: string | undefined): string {
-    const trimmed = String(input || "").trim();
-    return (trimmed || DEFAULT_JIRA_PROJECT_KEY).toUpperCase();
-  }
-
-  function extractIssueKey(input: string): string | null {
-    // Generic Jira issue key format: ABC-123
-    const match = String(input || "").toUpperCase().match(/\b([A-Z][A-Z0-9_]+-\d+)\b/);
-    return match?.[1] ?? null;
-  }
-
-  function isProbablyUrl(input: string): boolean {
-    const trimmed = String(input || "").trim().toLowerCase();
-    return trimmed.startsWith("http://") || trimmed.startsWith("https://");
-  }
-
-  function normalizeJiraIdFromInput(input: string, defaultProjectKey: string): string {
-    const trimmed = String(input || "").trim();
-    if (!trimmed) return "";
-
-    // If it's a URL, try extracting the issue key from it.
-    if (isProbablyUrl(trimmed)) {
-      const issueKey = extractIssueKey(trimmed);
-      return issueKey ?? "";
-    }
-
-    // If user typed an issue key, accept it as-is.
-    const issueKey = extractIssueKey(trimmed);
-    if (issueKey) return issueKey;
-
-    // Back-compat: if user typed only digits, prefix with default project key.
-    const digits = trimmed.replace(/\s+/g, "");
-    if (/^\d+$/.test(digits)) {
-      return `${defaultProjectKey}-${digits}`;
-    }
-
-    return "";
-  }
-
-  function sanitizeDescription(description: string): string {
-    return description
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, "-") // non-alphanumeric -> -
-      .replace(/^-+|-+$/g, ""); // trim leading/trailing -
-  }
-  
-  async function createBranch({
-    jiraId,
-    description,
-    baseBranch,
-    workerDir,
-    gitUsername,
-  }: FormValues & { workerDir: string; gitUsername: string }) {
-    const sanitizedDesc = sanitizeDescription(description);
-    const branchName = `${gitUsername}/${jiraId}/${sanitizedDesc}`;
-  
-    const opts = { cwd: workerDir };
-  
-    if (baseBranch === "prod" || baseBranch === "waiting-thaw") {
-      await asyncExec(`git checkout ${baseBranch}`, opts);
-      await asyncExec("git pull", opts);
-    }
-  
-    await asyncExec(`git checkout -b "${branchName}"`, opts);
-  
-    return branchName;
-  }
-
-  async function fetchJiraSummary(opts: {
-    jiraId: string;
-    jiraEmail: string;
-    jiraApiToken: string;
-  }): Promise<string> {
-    const base = normalizeJiraBaseUrl(DEFAULT_JIRA_BASE_URL);
-    const url = `${base}/rest/api/3/issue/${encodeURIComponent(opts.jiraId)}?fields=summary`;
-    const auth = Buffer.from(`${opts.jiraEmail}:${opts.jiraApiToken}`).toString("base64");
-    const res = await fetch(url, {
-      headers: {
-        Authorization: `Basic ${auth}`,
-        Accept: "application/json",
-      },
-    });
-
-    if (!res.ok) {
-      const text = await res.text().catch(() => "");
-      throw new Error(`Jira request failed (${res.status}): ${text || res.statusText}`);
-    }
-
-    const json = (await res.json()) as { fields?: { summary?: string } };
-    const summary = json.fields?.summary?.trim();
-    if (!summary) throw new Error("Jira response missing fields.summary");
-    return summary;
-  }
+  type Arguments = {
+    jira?: string;
+    description?: string;
+  };
 
-  export default function Command() {
+  export default function Command(props: LaunchProps<{ arguments: Arguments; launchContext?: CreateWorkerBranchContext }>) {
     const prefs = getPreferenceValues<JiraPreferences>();
-    const defaultProjectKey = useMemo(() => normalizeProjectKey(prefs.jiraDefaultProjectKey), [prefs.jiraDefaultProjectKey]);
+    const { profiles, isLoading: isLoadingProfiles } = useRepoProfiles();
+    const [repoId, setRepoId] = useState<string>(DEFAULT_REPO_ID);
+    const repo = useMemo(() => profiles.find((p) => p.id === repoId) ?? profiles[0], [profiles, repoId]);
+    const defaultProjectKey = useMemo(() => normalizeProjectKey(repo.jiraProjectKey), [repo.jiraProjectKey]);
+    const hasJiraCredentials = !!getJiraCredentials(prefs);
+    const startStatus = String(prefs.jiraStartStatus || "").trim() || DEFAULT_JIRA_START_STATUS;
+    const runCreateBranch = useRunCreateBranch(startStatus);
 
     const [jiraUrlInput, setJiraUrlInput] = useState<string>("");
     const [jiraIdInput, setJiraIdInput] = useState<string>("");
     const [jiraId, setJiraId] = useState<string>("");
     const [description, setDescription] = useState<string>("");
     const [descriptionDirty, setDescriptionDirty] = useState<boolean>(false);
+    const [issueType, setIssueType] = useState<string | undefined>(undefined);
+    const naming = useMemo(() => getBranchNamingOptions(), []);
     const lastAutofilledJiraIdInputFromUrlRef = useRef<string>("");
     const lastAutofilledJiraIdRef = useRef<string>("");
     const lastAutofillErrorJiraIdRef = useRef<string>("");
     const autofillReqIdRef = useRef<number>(0);
+    const issueTypeReqIdRef = useRef<number>(0);
+
+    useEffect(() => {
+      // Prefill once: launch arguments and context first, then a Jira link or key in the selection or clipboard.
+      const jira = String(props.launchContext?.jira || props.arguments?.jira || "").trim();
+      const initialDescription = String(props.launchContext?.description || props.arguments?.description || "").trim();
+      if (initialDescription) {
+        setDescription(initialDescription);
+        setDescriptionDirty(true);
+      }
+
+      function prefillJira(text: string) {
+        if (isProbablyUrl(text)) setJiraUrlInput(text);
+        else setJiraIdInput(text);
+      }
+
+      if (jira) {
+        prefillJira(jira);
+        return;
+      }
+      void detectJiraInput(defaultProjectKey).then(async (detected) => {
+        if (!detected) return;
+        prefillJira(detected.text);
+        await showToast({
+          style: Toast.Style.Success,
+          title: `Prefilled ${detected.issueKey}`,
+          message: `From the ${detected.source === "selection" ? "selected text" : "clipboard"}`,
+        });
+      });
+    }, []);
 
     useEffect(() => {
       // If URL contains an issue key, auto-fill the Jira ID input (but don't fight the user).
@@ -167,7 +110,7 @@ import {
       // Auto-fill description from Jira summary when:
       // - we have a jiraId
       // - user hasn't manually edited the description
-      // - we have creds configured (email + api token)
+      // - we have Jira credentials configured
       if (!jiraId) return;
       // Only block auto-fill if the user already typed a non-empty description.
       // Some Raycast form behaviors can trigger onChange without meaningful user input.
@@ -175,19 +118,13 @@ import {
       if (lastAutofilledJiraIdRef.current === jiraId && description) return;
 
       // Read preferences at the time we run.
-      const { jiraEmail, jiraApiToken } = getPreferenceValues<JiraPreferences>();
-      const normalizedEmail = String(jiraEmail || "").trim();
-      const normalizedToken = String(jiraApiToken || "").trim();
-      if (!normalizedEmail || !normalizedToken) return;
+      const creds = getJiraCredentials(getPreferenceValues<JiraPreferences>());
+      if (!creds) return;
 
       const reqId = ++autofillReqIdRef.current;
       const timer = setTimeout(async () => {
         try {
-          const summary = await fetchJiraSummary({
-            jiraId,
-            jiraEmail: normalizedEmail,
-            jiraApiToken: normalizedToken,
-          });
+          const summary = await fetchJiraSummary({ jiraId, ...creds });
 
           // Ignore stale responses.
           if (reqId !== autofillReqIdRef.current) return;
@@ -211,8 +148,35 @@ import {
       return () => clearTimeout(timer);
     }, [jiraId, descriptionDirty, description]);
 
+    useEffect(() => {
+      // The {type} token needs the Jira issue type; only fetch it when the template uses it.
+      setIssueType(undefined);
+      if (!jiraId || !naming.template.includes("{type}")) return;
+      const creds = getJiraCredentials(getPreferenceValues<JiraPreferences>());
+      if (!creds) return;
+
+      const reqId = ++issueTypeReqIdRef.current;
+      const timer = setTimeout(async () => {
+        try {
+          const { issueType: fetched } = await fetchIssueBasics({ jiraId, ...creds });
+          if (reqId === issueTypeReqIdRef.current) setIssueType(fetched);
+        } catch {
+          // The description auto-fill already reports Jira errors; {type} just stays empty.
+        }
+      }, 450);
+
+      return () => clearTimeout(timer);
+    }, [jiraId, naming.template]);
+
+    const branchNamePreview = useMemo(() => {
+      const normalizedGitUsername = String(prefs.gitUsername || "").trim().replace(/\s+/g, "");
+      if (!jiraId || !description.trim()) return "Fill in the Jira ID and description to preview the branch name.";
+      return buildBranchName({ gitUsername: normalizedGitUsername, jiraId, description, issueType }, naming);
+    }, [prefs.gitUsername, jiraId, description, issueType, naming]);
+
     async function handleSubmit(values: Form.Values) {
-      const { workerDir, gitUsername } = getPreferenceValues<JiraPreferences>();
+      const { gitUsername } = getPreferenceValues<JiraPreferences>();
+      const workerDir = repo.directory;
 
       const rawJiraUrl = String(values.jiraUrl || "");
       const rawJiraId = String(values.jiraId || "");
@@ -222,7 +186,7 @@ import {
       const normalizedJiraId = normalizedFromUrl || normalizedFromId;
 
       const normalizedDescription = String(values.description || "").trim();
-      const baseBranch = (values.baseBranch as BaseBranch) || "prod";
+      const baseBranch = (values.baseBranch as BaseBranch) || repo.baseBranches[0] || CURRENT_BASE_BRANCH;
 
       const normalizedWorkerDir = String(workerDir || "").trim();
       const normalizedGitUsername = String(gitUsername || "").trim().replace(/\s+/g, "");
@@ -231,7 +195,7 @@ import {
         await showToast({
           style: Toast.Style.Failure,
           title: "Missing Preferences",
-          message: "Set Worker Directory and Git Username in extension preferences.",
+          message: "Set the repository directory and Git Username in extension preferences.",
         });
         await openExtensionPreferences();
         return;
@@ -262,41 +226,45 @@ import {
         });
         return;
       }
-  
-      try {
-        await showToast({
-          style: Toast.Style.Animated,
-          title: "Creating branch…",
-        });
-  
-        const branchName = await createBranch({
-          jira: rawJiraUrl || rawJiraId,
+
+      // The debounced {type} lookup may not have answered yet (or was for another key): fetch it now so the
+      // branch gets the name the preview shows.
+      let resolvedIssueType = normalizedJiraId === jiraId ? issueType : undefined;
+      const creds = getJiraCredentials(getPreferenceValues<JiraPreferences>());
+      if (naming.template.includes("{type}") && creds && resolvedIssueType === undefined) {
+        try {
+          resolvedIssueType = (await fetchIssueBasics({ jiraId: normalizedJiraId, ...creds })).issueType;
+        } catch (e) {
+          await showToast({
+            style: Toast.Style.Failure,
+            title: "Failed to fetch Jira issue type",
+            message: e instanceof Error ? e.message : String(e),
+          });
+          return;
+        }
+      }
+
+      await runCreateBranch(
+        {
           jiraId: normalizedJiraId,
           description: normalizedDescription,
+          issueType: resolvedIssueType,
           baseBranch,
           workerDir: normalizedWorkerDir,
           gitUsername: normalizedGitUsername,
-        });
-  
-        await showHUD(`✅ Created branch: ${branchName}`);
-        await popToRoot();
-      } catch (error: unknown) {
-        const message =
-          error instanceof Error
-            ? error.message
-            : typeof error === "object" && error && "stderr" in error
-              ? String((error as { stderr?: unknown }).stderr)
-              : String(error);
-        await showToast({
-          style: Toast.Style.Failure,
-          title: "Failed to create branch",
-          message,
-        });
-      }
+          worktree: !!values.worktree,
+        },
+        {
+          transitionIssue: !!values.transitionIssue,
+          assignToMe: !!values.assignToMe,
+          commentBranch: !!values.commentBranch,
+        },
+      );
     }
   
     return (
       <Form
+        isLoading={isLoadingProfiles}
         actions={
           <ActionPanel>
             <Action.SubmitForm title="Create Branch" onSubmit={handleSubmit} />
@@ -307,6 +275,11 @@ import {
           </ActionPanel>
         }
       >
+        <Form.Dropdown id="repo" title="📁 Repository" storeValue onChange={setRepoId}>
+          {profiles.map((p) => (
+            <Form.Dropdown.Item key={p.id} value={p.id} title={p.name} />
+          ))}
+        </Form.Dropdown>
         <Form.TextField
           id="jiraUrl"
           title="🔗 Paste Jira Link (auto-fill)"
@@ -332,14 +305,32 @@ import {
             setDescription(v);
             setDescriptionDirty(true);
           }}
-          placeholder="Auto-filled from Jira summary (if Jira Email + API Token are configured)"
+          placeholder="Auto-filled from Jira summary (if Jira credentials are configured)"
           info="Used to build the branch name suffix."
         />
-        <Form.Dropdown id="baseBranch" title="🌿 Base Branch" defaultValue="prod" info="Branch to base from when creating a new branch.">
-          <Form.Dropdown.Item value="prod" title="prod" />
-          <Form.Dropdown.Item value="waiting-thaw" title="waiting-thaw" />
-          <Form.Dropdown.Item value="current" title="current (stay on current branch)" />
-        </Form.Dropdown>
+        <Form.Description title="🌱 Branch Name" text={branchNamePreview} />
+        <BaseBranchDropdown repo={repo} info="Branch to base from when creating a new branch. Any branch of origin can be picked." />
+        <Form.Checkbox
+          id="worktree"
+          label="Create as worktree"
+          defaultValue={false}
+          storeValue
+          info="Creates the branch in a sibling git worktree from the base branch's origin version, leaving the current checkout untouched."
+        />
+        {hasJiraCredentials ? (
+          <>
+            <Form.Separator />
+            <Form.Checkbox
+              id="transitionIssue"
+              title="🎫 Jira"
+              label={`Move issue to "${startStatus}"`}
+              defaultValue={true}
+              storeValue
+            />
+            <Form.Checkbox id="assignToMe" label="Assign to me if unassigned" defaultValue={true} storeValue />
+            <Form.Checkbox id="commentBranch" label="Comment with the branch name" defaultValue={false} storeValue />
+          </>
+        ) : null}
       </Form>
     );
   }
\ No newline at end of file
@@ -0,0 +1,349 @@
+import {
+  Action,
+  ActionPanel,
+  Color,
+  Detail,
+  Icon,
+  LaunchType,
+  Toast,
+  getPreferenceValues,
+  launchCommand,
+  openExtensionPreferences,
+  showToast,
+} from "@raycast/api";
+import { useEffect, useMemo, useState } from "react";
+import { JiraTransitionSubmenu } from "./components/jira-transition-submenu";
+import { PipelineJobs } from "./components/pipeline-jobs";
+import { useRepoProfiles } from "./hooks/use-repo-profiles";
+import { CurrentWork, LocalState, Part, loadCurrentWork } from "./lib/current-work";
+import { gitErrorMessage, push, pushWithUpstream } from "./lib/git";
+import { GitLabContext, pipelinesUrlForBranch } from "./lib/gitlab";
+import { JiraAuthMode, getJiraCredentials, issueBrowseUrl } from "./lib/jira";
+import { issueStatusColor } from "./lib/jira-status";
+import {
+  formatDuration,
+  pipelineDurationSeconds,
+  pipelineStatusIcon,
+  pipelineStatusLabel,
+} from "./lib/pipeline-status";
+import { DEFAULT_REPO_ID, resolveGitLabProject } from "./lib/repos";
+
+type Preferences = {
+  jiraEmail?: string;
+  jiraApiToken?: string;
+  jiraAuthMode?: JiraAuthMode;
+  gitlabToken?: string;
+};
+
+function section<T>(title: string, data: Part<T> | null, missing: string, render: (value: T) => string): string {
+  if (!data) return `## ${title}\n\n_${missing}_`;
+  if (data.error !== undefined) return `## ${title}\n\n⚠️ ${data.error}`;
+  return `## ${title}\n\n${render(data.value as T)}`;
+}
+
+function localSummary(local: LocalState): string {
+  const lines = [local.dirtyFiles ? `**${local.dirtyFiles}** uncommitted file(s)` : "No uncommitted changes"];
+  if (local.upstream && local.counts) {
+    const { ahead, behind } = local.counts;
+    lines.push(
+      ahead
+        ? `**${ahead}** unpushed commit(s) on \`${local.upstream}\``
+        : `Everything is pushed to \`${local.upstream}\``,
+    );
+    if (behind) lines.push(`**${behind}** commit(s) on \`${local.upstream}\` not pulled yet`);
+  } else if (local.counts && local.compareRef) {
+    lines.push(`Not pushed yet: **${local.counts.ahead}** commit(s) ahead of \`${local.compareRef}\``);
+  } else {
+    lines.push("Not pushed yet");
+  }
+  return lines.map((l) => `- ${l}`).join("\n");
+}
+
+function dashboardMarkdown(work: CurrentWork): string {
+  return [
+    `# \`${work.branch}\``,
+    section(
+      "🎫 Jira",
+      work.issue,
+      work.issueKey ? "Set Jira credentials to see the issue." : "No Jira key in the branch name.",
+      (issue) =>
+        [
+          `**[${issue.key}](${issueBrowseUrl(issue.key)})** ${issue.fields.summary}`,
+          `Status: **${issue.fields.status?.name ?? "unknown"}** · Assignee: ${issue.fields.assignee?.displayName ?? "unassigned"}`,
+        ].join("\n\n"),
+    ),
+    section("🚀 Pipeline", work.pipeline, "Set the GitLab token to see pipelines.", (pipeline) => {
+      if (!pipeline) return "No pipeline for this branch yet.";
+      const duration = pipelineDurationSeconds(pipeline);
+      return `[#${pipeline.id}](${pipeline.web_url}) **${pipelineStatusLabel(pipeline.status)}**${
+        duration !== null ? ` in ${formatDuration(duration)}` : ""
+      }`;
+    }),
+    section(
+      "🔀 Merge Request",
+      work.mergeRequest,
+      work.isBranch ? "Set the GitLab token to see merge requests." : "Detached HEAD.",
+      (found) => {
+        if (!found) return "No open merge request.";
+        const { mr, approvals } = found;
+        const approvedBy = approvals?.approved_by.map((a) => a.user.name) ?? [];
+        return [
+          `**[!${mr.iid}](${mr.web_url})** ${mr.title} → \`${mr.target_branch}\`${mr.draft ? " (draft)" : ""}`,
+          approvals
+            ? `${approvals.approved ? "✅ Approved" : `⏳ ${approvals.approvals_left ?? 0} approval(s) left`}${
+                approvedBy.length ? ` · by ${approvedBy.join(", ")}` : ""
+              }`
+            : "",
+        ]
+          .filter(Boolean)
+          .join("\n\n");
+      },
+    ),
+    section("🌿 Local", work.local, "", localSummary),
+  ].join("\n\n");
+}
+
+export default function Command() {
+  const prefs = getPreferenceValues<Preferences>();
+  const { profiles } = useRepoProfiles();
+  const [repoId, setRepoId] = useState<string>(DEFAULT_REPO_ID);
+  const repo = useMemo(() => profiles.find((p) => p.id === repoId) ?? profiles[0], [profiles, repoId]);
+  const workerDir = repo.directory;
+  const jira = useMemo(() => getJiraCredentials(prefs), [prefs.jiraEmail, prefs.jiraApiToken, prefs.jiraAuthMode]);
+  const gitlabToken = String(prefs.gitlabToken || "").trim();
+  // Null until the repository's GitLab project is resolved (never without a GitLab token).
+  const [projectPath, setProjectPath] = useState<string | null>(null);
+  const gitlab = useMemo<GitLabContext | null>(
+    () => (gitlabToken && projectPath ? { token: gitlabToken, projectPath } : null),
+    [gitlabToken, projectPath],
+  );
+
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [work, setWork] = useState<CurrentWork | null>(null);
+  const [error, setError] = useState<string>("");
+
+  async function reload() {
+    setIsLoading(true);
+    try {
+      // A project that can't be detected only blanks the GitLab sections, like a failing GitLab would.
+      let target: GitLabContext | null = null;
+      let gitlabError = "";
+      if (gitlabToken) {
+        try {
+          target = { token: gitlabToken, projectPath: await resolveGitLabProject(repo) };
+        } catch (e) {
+          gitlabError = e instanceof Error ? e.message : String(e);
+        }
+      }
+      setProjectPath(target?.projectPath ?? null);
+      const loaded = await loadCurrentWork({
+        workerDir,
+        baseBranch: repo.baseBranches[0] ?? "prod",
+        jira,
+        gitlab: target,
+      });
+      setWork(
+        gitlabError ? { ...loaded, pipeline: { error: gitlabError }, mergeRequest: { error: gitlabError } } : loaded,
+      );
+      setError("");
+    } catch (e) {
+      setError(gitErrorMessage(e));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    setWork(null);
+    setProjectPath(null);
+    void reload();
+  }, [repo.id, repo.directory, repo.gitlabProject]);
+
+  async function handlePush() {
+    if (!work?.isBranch) return;
+    const toast = await showToast({ style: Toast.Style.Animated, title: `Pushing ${work.branch}…` });
+    try {
+      if (work.local.value?.upstream) await push(workerDir);
+      else await pushWithUpstream(workerDir, work.branch);
+      toast.style = Toast.Style.Success;
+      toast.title = `Pushed ${work.branch}`;
+      await reload();
+    } catch (e) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Push failed";
+      toast.message = gitErrorMessage(e);
+    }
+  }
+
+  const issue = work?.issue?.value;
+  const pipeline = work?.pipeline?.value;
+  const mergeRequest = work?.mergeRequest?.value;
+  const local = work?.local.value;
+  const hasUnpushed = !!local && (!local.upstream || !!local.counts?.ahead);
+
+  const reloadAction = (
+    <Action title="Reload" icon={Icon.ArrowClockwise} shortcut={{ modifiers: ["cmd"], key: "r" }} onAction={reload} />
+  );
+  // Detail has no search bar dropdown: other repository profiles are picked from the action panel.
+  const repoSubmenu =
+    profiles.length > 1 ? (
+      <ActionPanel.Submenu title="Switch Repository" icon={Icon.Folder} shortcut={{ modifiers: ["cmd"], key: "o" }}>
+        {profiles.map((p) => (
+          <Action
+            key={p.id}
+            title={p.name}
+            icon={p.id === repo.id ? Icon.CheckCircle : Icon.Circle}
+            onAction={() => setRepoId(p.id)}
+          />
+        ))}
+      </ActionPanel.Submenu>
+    ) : null;
+
+  if (error) {
+    return (
+      <Detail
+        markdown={`# Current Work\n\nCouldn't read the worker directory:\n\n\`\`\`\n${error}\n\`\`\``}
+        actions={
+          <ActionPanel>
+            <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+            {reloadAction}
+            {repoSubmenu}
+          </ActionPanel>
+        }
+      />
+    );
+  }
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      navigationTitle={profiles.length > 1 ? `Current Work — ${repo.name}` : "Current Work"}
+      markdown={work ? dashboardMarkdown(work) : ""}
+      metadata={
+        work ? (
+          <Detail.Metadata>
+            <Detail.Metadata.Label title="Branch" text={work.branch} icon={Icon.Code} />
+            {issue ? (
+              <Detail.Metadata.TagList title={issue.key}>
+                <Detail.Metadata.TagList.Item
+                  text={issue.fields.status?.name ?? "unknown"}
+                  color={issueStatusColor(issue)}
+                />
+              </Detail.Metadata.TagList>
+            ) : null}
+            {pipeline ? (
+              <Detail.Metadata.TagList title="Pipeline">
+                <Detail.Metadata.TagList.Item
+                  text={pipelineStatusLabel(pipeline.status)}
+                  color={pipelineStatusIcon(pipeline.status).tintColor}
+                />
+              </Detail.Metadata.TagList>
+            ) : null}
+            {mergeRequest ? (
+              <Detail.Metadata.TagList title="Merge Request">
+                <Detail.Metadata.TagList.Item
+                  text={
+                    mergeRequest.approvals?.approved
+                      ? "approved"
+                      : mergeRequest.mr.draft
+                        ? "draft"
+                        : "waiting for approval"
+                  }
+                  color={mergeRequest.approvals?.approved ? Color.Green : Color.Orange}
+                />
+              </Detail.Metadata.TagList>
+            ) : null}
+            {local ? (
+              <>
+                <Detail.Metadata.Separator />
+                <Detail.Metadata.Label title="Uncommitted" text={String(local.dirtyFiles)} />
+                <Detail.Metadata.Label
+                  title="Unpushed"
+                  text={local.upstream ? String(local.counts?.ahead ?? "?") : "no upstream"}
+                />
+              </>
+            ) : null}
+          </Detail.Metadata>
+        ) : null
+      }
+      actions={
+        <ActionPanel>
+          {work?.issueKey ? (
+            <ActionPanel.Section title="Jira">
+              <Action.OpenInBrowser title="Open Jira Issue" url={issueBrowseUrl(work.issueKey)} />
+              {jira ? (
+                <JiraTransitionSubmenu
+                  creds={jira}
+                  issueKey={work.issueKey}
+                  shortcut={{ modifiers: ["cmd"], key: "t" }}
+                  onTransitioned={reload}
+                />
+              ) : null}
+              <Action.CopyToClipboard
+                title="Copy Issue Key"
+                content={work.issueKey}
+                shortcut={{ modifiers: ["cmd"], key: "." }}
+              />
+            </ActionPanel.Section>
+          ) : null}
+          {work && gitlab ? (
+            <ActionPanel.Section title="GitLab">
+              <Action.OpenInBrowser
+                title="Open Pipeline"
+                url={pipeline?.web_url ?? pipelinesUrlForBranch(work.branch, gitlab.projectPath)}
+                shortcut={{ modifiers: ["cmd"], key: "p" }}
+              />
+              <Action.Push
+                title="Show Pipeline Jobs"
+                icon={Icon.List}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "j" }}
+                target={<PipelineJobs gitlab={gitlab} branch={work.branch} />}
+              />
+              {mergeRequest ? (
+                <Action.OpenInBrowser
+                  title="Open Merge Request"
+                  url={mergeRequest.mr.web_url}
+                  shortcut={{ modifiers: ["cmd"], key: "m" }}
+                />
+              ) : work.isBranch ? (
+                <Action
+                  title="Create Merge Request"
+                  icon={Icon.PlusCircle}
+                  shortcut={{ modifiers: ["cmd"], key: "m" }}
+                  onAction={() => launchCommand({ name: "create-merge-request", type: LaunchType.UserInitiated })}
+                />
+              ) : null}
+            </ActionPanel.Section>
+          ) : null}
+          <ActionPanel.Section title="Git">
+            <Action
+              title="Commit"
+              icon={Icon.Check}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+              onAction={() => launchCommand({ name: "commit", type: LaunchType.UserInitiated })}
+            />
+            {work?.isBranch && hasUnpushed ? (
+              <Action
+                title="Push"
+                icon={Icon.Upload}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+                onAction={handlePush}
+              />
+            ) : null}
+            <Action
+              title="Sync Branch with Base"
+              icon={Icon.ArrowClockwise}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+              onAction={() => launchCommand({ name: "sync-branch", type: LaunchType.UserInitiated })}
+            />
+          </ActionPanel.Section>
+          <ActionPanel.Section>
+            {repoSubmenu}
+            {reloadAction}
+            <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+          </ActionPanel.Section>
+        </ActionPanel>
+      }
+    />
+  );
+}
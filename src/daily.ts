@@ -1,11 +1,21 @@
-import { Toast, getPreferenceValues, open, openExtensionPreferences, showHUD, showToast } from "@raycast/api";
+import {
+  LaunchType,
+  Toast,
+  getPreferenceValues,
+  launchCommand,
+  open,
+  openExtensionPreferences,
+  showHUD,
+  showToast,
+} from "@raycast/api";
 
 type Preferences = {
   dailyZoomUrl: string;
+  dailyStandupNotes?: boolean;
 };
 
 export default async function Command() {
-  const { dailyZoomUrl } = getPreferenceValues<Preferences>();
+  const { dailyZoomUrl, dailyStandupNotes } = getPreferenceValues<Preferences>();
   const url = String(dailyZoomUrl || "").trim();
 
   if (!url) {
@@ -18,8 +28,12 @@ export default async function Command() {
     return;
   }
 
+  // The notes view has its own Join Daily action.
+  if (dailyStandupNotes) {
+    await launchCommand({ name: "standup-notes", type: LaunchType.UserInitiated });
+    return;
+  }
+
   await open(url);
   await showHUD("Opening Daily Zoom…");
 }
-
-
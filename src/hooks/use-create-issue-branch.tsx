@@ -0,0 +1,57 @@
+import { Toast, openExtensionPreferences, showHUD, showToast, useNavigation } from "@raycast/api";
+import { BranchPreflight, PreflightResolution } from "../components/branch-preflight";
+import { gitErrorMessage } from "../lib/git";
+import { JiraIssue } from "../lib/jira";
+import { BaseBranch, BranchPreflightError, createBranch } from "../lib/worker-branch";
+
+type Options = {
+  workerDir: string;
+  gitUsername: string;
+  onCreated?: () => Promise<void>;
+};
+
+// Creates a worker branch for a Jira issue from a list, pushing the pre-flight view when git needs a decision.
+export function useCreateIssueBranch({ workerDir, gitUsername, onCreated }: Options) {
+  const { push, pop } = useNavigation();
+
+  async function createIssueBranch(issue: JiraIssue, baseBranch: BaseBranch, resolution?: PreflightResolution) {
+    if (!workerDir || !gitUsername) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Missing Preferences",
+        message: "Set Worker Directory and Git Username in extension preferences.",
+      });
+      await openExtensionPreferences();
+      return;
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Creating branch…" });
+    try {
+      const { branchName, switched } = await createBranch({
+        jiraId: issue.key,
+        description: issue.fields.summary,
+        issueType: issue.fields.issuetype?.name,
+        baseBranch,
+        workerDir,
+        gitUsername,
+        ...resolution,
+      });
+      if (resolution) pop();
+      await showHUD(switched ? `✅ Switched to existing branch: ${branchName}` : `✅ Created branch: ${branchName}`);
+      await onCreated?.();
+    } catch (e) {
+      if (e instanceof BranchPreflightError) {
+        await toast.hide();
+        push(<BranchPreflight report={e.report} onResolve={(next) => createIssueBranch(issue, baseBranch, next)} />);
+        return;
+      }
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to create branch",
+        message: gitErrorMessage(e),
+      });
+    }
+  }
+
+  return createIssueBranch;
+}
@@ -0,0 +1,29 @@
+import { Toast, showToast } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { Meeting, loadMeetings } from "../lib/meetings";
+
+export function useMeetings() {
+  const [meetings, setMeetings] = useState<Meeting[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  async function reload() {
+    setIsLoading(true);
+    try {
+      setMeetings(await loadMeetings());
+    } catch (e) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Couldn't load meetings",
+        message: e instanceof Error ? e.message : String(e),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void reload();
+  }, []);
+
+  return { meetings, isLoading, reload };
+}
@@ -0,0 +1,30 @@
+import { Toast, showToast } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { RepoProfile, defaultRepoProfile, loadRepoProfiles } from "../lib/repos";
+
+export function useRepoProfiles() {
+  // Start with the default profile so pickers always have a valid selection.
+  const [profiles, setProfiles] = useState<RepoProfile[]>(() => [defaultRepoProfile()]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  async function reload() {
+    setIsLoading(true);
+    try {
+      setProfiles(await loadRepoProfiles());
+    } catch (e) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Couldn't load repositories",
+        message: e instanceof Error ? e.message : String(e),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void reload();
+  }, []);
+
+  return { profiles, isLoading, reload };
+}
@@ -0,0 +1,101 @@
+import { Toast, getPreferenceValues, popToRoot, showHUD, showToast, useNavigation } from "@raycast/api";
+import { BranchPreflight } from "../components/branch-preflight";
+import { getJiraCredentials, startWorkOnIssue } from "../lib/jira";
+import { BranchPreflightError, CreateBranchOptions, createBranch } from "../lib/worker-branch";
+
+type JiraPreferences = {
+  jiraEmail?: string;
+  jiraApiToken?: string;
+};
+
+export type JiraFollowUps = {
+  transitionIssue: boolean;
+  assignToMe: boolean;
+  commentBranch: boolean;
+};
+
+// Creates the branch, runs the Jira follow-ups, then closes Raycast with a HUD.
+// Throws BranchPreflightError untouched when git needs a decision first; the caller decides how to ask for it.
+export async function createBranchAndStartWork(
+  options: CreateBranchOptions,
+  followUps: JiraFollowUps,
+  startStatus: string,
+): Promise<void> {
+  const { branchName, switched, stashed, worktreePath } = await createBranch(options);
+
+  // Jira follow-ups only run once the branch exists; a failure here must not hide that it was created.
+  const creds = getJiraCredentials(getPreferenceValues<JiraPreferences>());
+  if (creds && (followUps.transitionIssue || followUps.assignToMe || followUps.commentBranch)) {
+    await showToast({
+      style: Toast.Style.Animated,
+      title: "Updating Jira issue…",
+    });
+    const jiraErrors = await startWorkOnIssue(creds, options.jiraId, {
+      transitionTo: followUps.transitionIssue ? startStatus : undefined,
+      assignToMe: followUps.assignToMe,
+      comment: followUps.commentBranch ? `Started work on branch ${branchName}` : undefined,
+    });
+    if (jiraErrors.length) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `Created ${branchName}, but Jira update failed`,
+        message: jiraErrors.join("\n"),
+      });
+      return;
+    }
+  }
+
+  const stashNote = stashed ? " (changes stashed)" : "";
+  if (worktreePath) {
+    await showHUD(`✅ ${switched ? "Checked out" : "Created"} ${branchName} in worktree ${worktreePath}`);
+  } else {
+    await showHUD(
+      switched
+        ? `✅ Switched to existing branch: ${branchName}${stashNote}`
+        : `✅ Created branch: ${branchName}${stashNote}`,
+    );
+  }
+  await popToRoot();
+}
+
+// The submit flow of Create Worker Branch. Pushes the pre-flight view when git needs a decision first.
+export function useRunCreateBranch(startStatus: string) {
+  const { push } = useNavigation();
+
+  async function runCreateBranch(options: CreateBranchOptions, followUps: JiraFollowUps) {
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: "Creating branch…",
+    });
+
+    try {
+      await createBranchAndStartWork(options, followUps, startStatus);
+    } catch (error: unknown) {
+      if (error instanceof BranchPreflightError) {
+        // Nothing has touched git yet; let the user decide how to continue.
+        await toast.hide();
+        push(
+          <BranchPreflight
+            report={error.report}
+            onResolve={(resolution) => runCreateBranch({ ...options, ...resolution }, followUps)}
+          />,
+        );
+        return;
+      }
+
+      const message =
+        error instanceof Error
+          ? error.message
+          : typeof error === "object" && error && "stderr" in error
+            ? String((error as { stderr?: unknown }).stderr)
+            : String(error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to create branch",
+        message,
+      });
+    }
+  }
+
+  return runCreateBranch;
+}
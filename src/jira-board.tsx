@@ -0,0 +1,248 @@
+import {
+  Action,
+  ActionPanel,
+  Icon,
+  List,
+  Toast,
+  getPreferenceValues,
+  openExtensionPreferences,
+  showToast,
+} from "@raycast/api";
+import { useEffect, useMemo, useState } from "react";
+import { JiraTransitionSubmenu } from "./components/jira-transition-submenu";
+import { useCreateIssueBranch } from "./hooks/use-create-issue-branch";
+import {
+  DEFAULT_JIRA_BOARD_URL,
+  JiraAuthMode,
+  JiraBoardColumn,
+  JiraBoardSprint,
+  JiraIssue,
+  JiraUser,
+  assignIssue,
+  fetchActiveSprint,
+  fetchBoardColumns,
+  fetchMyself,
+  fetchSprintIssues,
+  getJiraCredentials,
+  issueBrowseUrl,
+  jiraCredentialsPreferenceNames,
+  jiraUserId,
+  parseBoardId,
+} from "./lib/jira";
+import { issueStatusColor } from "./lib/jira-status";
+import { defaultRepoProfile } from "./lib/repos";
+import { CURRENT_BASE_BRANCH } from "./lib/worker-branch";
+
+type Preferences = {
+  gitUsername: string;
+  jiraBoardUrl: string;
+  jiraEmail?: string;
+  jiraApiToken?: string;
+  jiraAuthMode?: JiraAuthMode;
+};
+
+const ALL_ASSIGNEES = "all";
+const UNASSIGNED = "unassigned";
+
+type BoardColumnIssues = {
+  name: string;
+  issues: JiraIssue[];
+};
+
+// Issues go to the column that lists their status; statuses missing from the board config get their own section.
+function groupByColumn(issues: JiraIssue[], columns: JiraBoardColumn[]): BoardColumnIssues[] {
+  const groups: BoardColumnIssues[] = columns.map((c) => ({ name: c.name, issues: [] }));
+  const extra = new Map<string, JiraIssue[]>();
+  for (const issue of issues) {
+    const statusId = issue.fields.status?.id;
+    const index = statusId ? columns.findIndex((c) => c.statusIds.includes(statusId)) : -1;
+    if (index >= 0) {
+      groups[index].issues.push(issue);
+    } else {
+      const name = issue.fields.status?.name ?? "No Status";
+      extra.set(name, [...(extra.get(name) ?? []), issue]);
+    }
+  }
+  return [...groups, ...[...extra].map(([name, list]) => ({ name, issues: list }))];
+}
+
+export default function Command() {
+  const prefs = getPreferenceValues<Preferences>();
+  const boardUrl = String(prefs.jiraBoardUrl || "").trim() || DEFAULT_JIRA_BOARD_URL;
+  const boardId = parseBoardId(boardUrl);
+  const creds = useMemo(() => getJiraCredentials(prefs), [prefs.jiraEmail, prefs.jiraApiToken, prefs.jiraAuthMode]);
+  const repo = useMemo(() => defaultRepoProfile(), []);
+  const gitUsername = String(prefs.gitUsername || "")
+    .trim()
+    .replace(/\s+/g, "");
+
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [sprint, setSprint] = useState<JiraBoardSprint | null>(null);
+  const [columns, setColumns] = useState<JiraBoardColumn[]>([]);
+  const [issues, setIssues] = useState<JiraIssue[]>([]);
+  const [myself, setMyself] = useState<JiraUser | null>(null);
+  const [assignee, setAssignee] = useState<string>(ALL_ASSIGNEES);
+
+  async function reload() {
+    setIsLoading(true);
+    try {
+      if (!creds) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Missing Preferences",
+          message: `Set ${jiraCredentialsPreferenceNames()} in extension preferences.`,
+        });
+        return;
+      }
+      if (!boardId) throw new Error(`Couldn't find a board ID in ${boardUrl}`);
+
+      const [active, boardColumns, me] = await Promise.all([
+        fetchActiveSprint(creds, boardId),
+        fetchBoardColumns(creds, boardId),
+        myself ? Promise.resolve(myself) : fetchMyself(creds),
+      ]);
+      setSprint(active);
+      setColumns(boardColumns);
+      setMyself(me);
+      setIssues(active ? await fetchSprintIssues(creds, boardId, active.id) : []);
+      if (!active) await showToast({ style: Toast.Style.Failure, title: "The board has no active sprint" });
+    } catch (e) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Couldn't load the sprint board",
+        message: e instanceof Error ? e.message : String(e),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void reload();
+  }, [boardId, creds]);
+
+  const handleCreateBranch = useCreateIssueBranch({ workerDir: repo.directory, gitUsername });
+
+  async function handleAssignToMe(issue: JiraIssue) {
+    if (!creds || !myself) return;
+    try {
+      await assignIssue(creds, issue.key, myself);
+      await showToast({ style: Toast.Style.Success, title: `Assigned ${issue.key} to you` });
+      await reload();
+    } catch (e) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Couldn't assign issue",
+        message: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+
+  // Users are keyed by accountId on Jira Cloud and by name on Server / Data Center.
+  const userId = (user: JiraUser | null | undefined) => (creds && user ? jiraUserId(creds, user) : "");
+  const myId = userId(myself);
+
+  const assignees = useMemo(() => {
+    const byId = new Map<string, string>();
+    for (const { fields } of issues) {
+      const id = userId(fields.assignee);
+      if (id && fields.assignee) byId.set(id, fields.assignee.displayName);
+    }
+    return [...byId].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [issues, creds]);
+
+  const visible = issues.filter((issue) => {
+    if (assignee === ALL_ASSIGNEES) return true;
+    if (assignee === UNASSIGNED) return !issue.fields.assignee;
+    return userId(issue.fields.assignee) === assignee;
+  });
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={sprint?.name ?? "Jira Board"}
+      searchBarPlaceholder="Search sprint issues…"
+      searchBarAccessory={
+        <List.Dropdown tooltip="Assignee" value={assignee} onChange={setAssignee}>
+          <List.Dropdown.Item value={ALL_ASSIGNEES} title="Everyone" />
+          {myId ? <List.Dropdown.Item value={myId} title="Me" /> : null}
+          <List.Dropdown.Item value={UNASSIGNED} title="Unassigned" />
+          <List.Dropdown.Section title="Assignees">
+            {assignees
+              .filter(([id]) => id !== myId)
+              .map(([id, name]) => (
+                <List.Dropdown.Item key={id} value={id} title={name} />
+              ))}
+          </List.Dropdown.Section>
+        </List.Dropdown>
+      }
+    >
+      {groupByColumn(visible, columns).map((column) => (
+        <List.Section key={column.name} title={column.name} subtitle={`${column.issues.length}`}>
+          {column.issues.map((issue) => (
+            <List.Item
+              key={issue.key}
+              title={issue.key}
+              subtitle={issue.fields.summary}
+              keywords={[issue.fields.summary]}
+              icon={issue.fields.issuetype?.iconUrl ?? Icon.Document}
+              accessories={[
+                ...(issue.fields.assignee ? [{ text: issue.fields.assignee.displayName, icon: Icon.Person }] : []),
+                ...(issue.fields.status
+                  ? [{ tag: { value: issue.fields.status.name, color: issueStatusColor(issue) } }]
+                  : []),
+              ]}
+              actions={
+                <ActionPanel>
+                  <Action.OpenInBrowser title="Open in Jira" url={issueBrowseUrl(issue.key)} />
+                  {creds ? (
+                    <JiraTransitionSubmenu
+                      creds={creds}
+                      issueKey={issue.key}
+                      shortcut={{ modifiers: ["cmd"], key: "t" }}
+                      onTransitioned={reload}
+                    />
+                  ) : null}
+                  {myself && userId(issue.fields.assignee) !== myId ? (
+                    <Action
+                      title="Assign to Me"
+                      icon={Icon.Person}
+                      shortcut={{ modifiers: ["cmd"], key: "i" }}
+                      onAction={() => handleAssignToMe(issue)}
+                    />
+                  ) : null}
+                  <ActionPanel.Submenu
+                    title="Create Worker Branch"
+                    icon={Icon.Plus}
+                    shortcut={{ modifiers: ["cmd"], key: "b" }}
+                  >
+                    {[...repo.baseBranches, CURRENT_BASE_BRANCH].map((b) => (
+                      <Action key={b} title={b} onAction={() => handleCreateBranch(issue, b)} />
+                    ))}
+                  </ActionPanel.Submenu>
+                  <Action.CopyToClipboard
+                    title="Copy Issue Key"
+                    content={issue.key}
+                    shortcut={{ modifiers: ["cmd"], key: "." }}
+                  />
+                  <Action.OpenInBrowser
+                    title="Open Board in Browser"
+                    url={boardUrl}
+                    shortcut={{ modifiers: ["cmd"], key: "o" }}
+                  />
+                  <Action
+                    title="Reload Board"
+                    icon={Icon.ArrowClockwise}
+                    shortcut={{ modifiers: ["cmd"], key: "r" }}
+                    onAction={reload}
+                  />
+                  <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,28 @@
+import { Toast, open, showHUD, showToast } from "@raycast/api";
+import { loadMeetings, meetingToJoin, upcomingMeetings } from "./lib/meetings";
+
+function formatStart(start: Date): string {
+  return start.toLocaleString(undefined, { weekday: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+export default async function Command() {
+  const meetings = await loadMeetings();
+  const now = new Date();
+  const toJoin = meetingToJoin(meetings, now);
+
+  if (!toJoin) {
+    const [next] = upcomingMeetings(
+      meetings.filter((m) => m.url),
+      now,
+    );
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "No meeting right now",
+      message: next ? `Next: ${next.meeting.name} on ${formatStart(next.start)}` : "Add meetings with Manage Meetings.",
+    });
+    return;
+  }
+
+  await open(toJoin.meeting.url);
+  await showHUD(`Joining ${toJoin.meeting.name}…`);
+}
@@ -0,0 +1,150 @@
+// Minimal Atlassian Document Format → markdown conversion, enough for issue descriptions and comments.
+// https://developer.atlassian.com/cloud/jira/platform/apis/document/structure/
+
+export type AdfNode = {
+  type: string;
+  version?: number;
+  text?: string;
+  content?: AdfNode[];
+  attrs?: Record<string, unknown>;
+  marks?: { type: string; attrs?: Record<string, unknown> }[];
+};
+
+function attr(node: AdfNode, name: string): string {
+  const value = node.attrs?.[name];
+  return value === undefined || value === null ? "" : String(value);
+}
+
+function renderText(node: AdfNode): string {
+  let text = node.text ?? "";
+  for (const mark of node.marks ?? []) {
+    switch (mark.type) {
+      case "code":
+        text = `\`${text}\``;
+        break;
+      case "strong":
+        text = `**${text}**`;
+        break;
+      case "em":
+        text = `_${text}_`;
+        break;
+      case "strike":
+        text = `~~${text}~~`;
+        break;
+      case "link":
+        text = `[${text}](${String(mark.attrs?.href ?? "")})`;
+        break;
+    }
+  }
+  return text;
+}
+
+function renderInline(nodes: AdfNode[] = []): string {
+  return nodes.map(renderNode).join("");
+}
+
+function indent(text: string, prefix: string): string {
+  return text
+    .split("\n")
+    .map((line, i) => (i === 0 || !line ? line : `${prefix}${line}`))
+    .join("\n");
+}
+
+function renderList(node: AdfNode, ordered: boolean): string {
+  const start = Number(node.attrs?.order ?? 1) || 1;
+  return (node.content ?? [])
+    .map((item, i) => {
+      const bullet = ordered ? `${start + i}. ` : "- ";
+      const body = (item.content ?? []).map(renderNode).join("\n").trim();
+      return `${bullet}${indent(body, " ".repeat(bullet.length))}`;
+    })
+    .join("\n");
+}
+
+function renderTable(node: AdfNode): string {
+  const rows = (node.content ?? []).map((row) =>
+    (row.content ?? []).map((cell) =>
+      (cell.content ?? []).map(renderNode).join(" ").replace(/\n+/g, " ").replace(/\|/g, "\\|").trim(),
+    ),
+  );
+  if (!rows.length) return "";
+  const width = Math.max(...rows.map((r) => r.length));
+  const line = (cells: string[]) => `| ${[...cells, ...Array(width - cells.length).fill("")].join(" | ")} |`;
+  return [line(rows[0]), line(Array(width).fill("---")), ...rows.slice(1).map(line)].join("\n");
+}
+
+function renderNode(node: AdfNode): string {
+  switch (node.type) {
+    case "doc":
+      return (node.content ?? []).map(renderNode).filter(Boolean).join("\n\n");
+    case "text":
+      return renderText(node);
+    case "hardBreak":
+      return "  \n";
+    case "paragraph":
+      return renderInline(node.content);
+    case "heading":
+      return `${"#".repeat(Math.min(6, Number(node.attrs?.level ?? 1) || 1))} ${renderInline(node.content)}`;
+    case "bulletList":
+      return renderList(node, false);
+    case "orderedList":
+      return renderList(node, true);
+    case "codeBlock":
+      return `\`\`\`${attr(node, "language")}\n${(node.content ?? []).map((n) => n.text ?? "").join("")}\n\`\`\``;
+    case "blockquote":
+    case "panel":
+      return (node.content ?? [])
+        .map(renderNode)
+        .join("\n\n")
+        .split("\n")
+        .map((line) => `> ${line}`)
+        .join("\n");
+    case "rule":
+      return "---";
+    case "mention":
+      return attr(node, "text") || "@someone";
+    case "emoji":
+      return attr(node, "text") || attr(node, "shortName");
+    case "status":
+      return `\`${attr(node, "text")}\``;
+    case "date":
+      return new Date(Number(attr(node, "timestamp"))).toLocaleDateString();
+    case "inlineCard":
+    case "blockCard":
+      return attr(node, "url");
+    case "table":
+      return renderTable(node);
+    case "mediaSingle":
+    case "mediaGroup":
+    case "media":
+      return "_[attachment]_";
+    default:
+      // Unknown nodes: keep whatever text they contain.
+      return node.content ? node.content.map(renderNode).join("") : (node.text ?? "");
+  }
+}
+
+export function adfToMarkdown(doc: AdfNode | string | null | undefined): string {
+  if (!doc) return "";
+  // Jira Server / API v2 answers with wiki markup strings instead of ADF.
+  if (typeof doc === "string") return doc;
+  return renderNode(doc).trim();
+}
+
+// Plain text → ADF for fields Jira Cloud v3 only accepts as documents. Blank lines separate paragraphs.
+export function textToAdf(text: string): AdfNode {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+  return {
+    type: "doc",
+    version: 1,
+    content: paragraphs.map((p) => ({
+      type: "paragraph",
+      content: p
+        .split("\n")
+        .flatMap((line, i) => [...(i ? [{ type: "hardBreak" }] : []), ...(line ? [{ type: "text", text: line }] : [])]),
+    })),
+  };
+}
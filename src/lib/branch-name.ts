@@ -0,0 +1,154 @@
+import { getPreferenceValues } from "@raycast/api";
+import { extractIssueKey } from "./jira";
+
+export const DEFAULT_BRANCH_NAME_TEMPLATE = "{user}/{key}/{slug}";
+export const DEFAULT_SLUG_MAX_LENGTH = 50;
+
+// Only dropped when "remove stop words" is enabled, and never when it would leave the slug empty.
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "in",
+  "into",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "should",
+  "that",
+  "the",
+  "this",
+  "to",
+  "when",
+  "with",
+]);
+
+export type BranchNamingOptions = {
+  template: string;
+  slugMaxLength: number;
+  removeStopWords: boolean;
+};
+
+export type BranchNameTokens = {
+  gitUsername: string;
+  jiraId: string;
+  description: string;
+  issueType?: string;
+};
+
+type BranchNamingPreferences = {
+  branchNameTemplate?: string;
+  branchSlugMaxLength?: string;
+  branchRemoveStopWords?: boolean;
+};
+
+export type ParsedBranchName = {
+  issueKey: string | null;
+  slug: string;
+};
+
+export function getBranchNamingOptions(): BranchNamingOptions {
+  const prefs = getPreferenceValues<BranchNamingPreferences>();
+  const maxLength = parseInt(String(prefs.branchSlugMaxLength || ""), 10);
+  return {
+    template: String(prefs.branchNameTemplate || "").trim() || DEFAULT_BRANCH_NAME_TEMPLATE,
+    // 0 (or anything non-positive) disables truncation.
+    slugMaxLength: Number.isFinite(maxLength) ? maxLength : DEFAULT_SLUG_MAX_LENGTH,
+    removeStopWords: !!prefs.branchRemoveStopWords,
+  };
+}
+
+export function sanitizeDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-") // non-alphanumeric -> -
+    .replace(/^-+|-+$/g, ""); // trim leading/trailing -
+}
+
+export function truncateSlug(slug: string, maxLength: number): string {
+  if (maxLength <= 0 || slug.length <= maxLength) return slug;
+
+  // Cut on a word boundary; only hard-cut when the first word alone is too long.
+  let result = "";
+  for (const word of slug.split("-")) {
+    const next = result ? `${result}-${word}` : word;
+    if (next.length > maxLength) break;
+    result = next;
+  }
+  return result || slug.slice(0, maxLength).replace(/-+$/g, "");
+}
+
+export function buildSlug(description: string, opts: Pick<BranchNamingOptions, "slugMaxLength" | "removeStopWords">) {
+  let slug = sanitizeDescription(description);
+  if (opts.removeStopWords) {
+    const kept = slug.split("-").filter((w) => !STOP_WORDS.has(w));
+    if (kept.length) slug = kept.join("-");
+  }
+  return truncateSlug(slug, opts.slugMaxLength);
+}
+
+// Maps a Jira issue type to a conventional-commit style prefix.
+export function branchTypeFromIssueType(issueType: string | undefined): string {
+  const normalized = String(issueType || "")
+    .trim()
+    .toLowerCase();
+  if (!normalized) return "";
+  if (["bug", "defect", "incident"].includes(normalized)) return "fix";
+  if (["story", "epic", "new feature", "feature", "improvement"].includes(normalized)) return "feat";
+  if (["task", "sub-task", "subtask", "spike"].includes(normalized)) return "chore";
+  return sanitizeDescription(normalized);
+}
+
+export function renderBranchName(tokens: BranchNameTokens, naming: BranchNamingOptions): string {
+  const values: Record<string, string> = {
+    user: tokens.gitUsername,
+    key: tokens.jiraId,
+    project: tokens.jiraId.split("-")[0] ?? "",
+    type: branchTypeFromIssueType(tokens.issueType),
+    slug: buildSlug(tokens.description, naming),
+  };
+
+  return (
+    naming.template
+      .replace(/\{(user|key|project|type|slug)\}/g, (_, token: string) => values[token] ?? "")
+      // Empty tokens (e.g. unknown {type}) must not leave `//` or dangling separators behind.
+      .replace(/\/{2,}/g, "/")
+      .replace(/-{2,}/g, "-")
+      .split("/")
+      .map((segment) => segment.replace(/^[-_.]+|[-_.]+$/g, ""))
+      .filter(Boolean)
+      .join("/")
+  );
+}
+
+// Worker branches look like `username/SYNTH-1234/short-description`.
+export function parseBranchName(branch: string): ParsedBranchName {
+  const segments = String(branch || "")
+    .split("/")
+    .filter(Boolean);
+  const issueKey = extractIssueKey(branch);
+  const keyIndex = issueKey ? segments.findIndex((s) => s.toUpperCase().includes(issueKey)) : -1;
+  if (!issueKey || keyIndex < 0) return { issueKey, slug: segments[segments.length - 1] ?? "" };
+
+  // Templates like `{type}/{key}-{slug}` keep the slug in the same segment as the key.
+  const keySegment = segments[keyIndex];
+  const rest = keySegment.slice(keySegment.toUpperCase().indexOf(issueKey) + issueKey.length).replace(/^[-_]+/, "");
+  const slug = [rest, ...segments.slice(keyIndex + 1)].filter(Boolean).join("/");
+  return { issueKey, slug };
+}
+
+export function humanizeSlug(slug: string): string {
+  const words = String(slug || "")
+    .replace(/[-_/]+/g, " ")
+    .trim();
+  return words ? words[0].toUpperCase() + words.slice(1) : "";
+}
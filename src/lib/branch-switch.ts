@@ -0,0 +1,77 @@
+import {
+  StashEntry,
+  getCurrentRef,
+  getDirtyFiles,
+  getOperationInProgress,
+  git,
+  gitErrorMessage,
+  listStashes,
+  stashPop,
+  stashPush,
+} from "./git";
+
+// Every branch has at most one auto-stash, found again by this message when we come back to it.
+const AUTO_STASH_PREFIX = "worker-helper: auto-stash";
+
+export function autoStashMessage(branch: string): string {
+  return `${AUTO_STASH_PREFIX} ${branch}`;
+}
+
+export async function findAutoStash(workerDir: string, branch: string): Promise<StashEntry | null> {
+  const message = autoStashMessage(branch);
+  // `git stash list` prefixes the message with "On <branch>: ".
+  return (
+    (await listStashes(workerDir)).find((s) => s.message === message || s.message.endsWith(`: ${message}`)) ?? null
+  );
+}
+
+export async function listAutoStashedBranches(workerDir: string): Promise<Set<string>> {
+  const branches = new Set<string>();
+  for (const { message } of await listStashes(workerDir)) {
+    const index = message.indexOf(`${AUTO_STASH_PREFIX} `);
+    if (index >= 0) branches.add(message.slice(index + AUTO_STASH_PREFIX.length + 1));
+  }
+  return branches;
+}
+
+export type SwitchBranchResult = {
+  previousRef: string;
+  // Uncommitted changes of the previous branch were auto-stashed.
+  stashed: boolean;
+  // The target branch's auto-stash was popped.
+  restored: boolean;
+  // Set when popping the target's auto-stash failed (usually conflicts); the stash is kept.
+  restoreError?: string;
+};
+
+export async function switchBranch(workerDir: string, branch: string): Promise<SwitchBranchResult> {
+  const operation = await getOperationInProgress(workerDir);
+  if (operation) throw new Error(`A ${operation} is in progress. Finish or abort it before switching branches.`);
+
+  const previousRef = await getCurrentRef(workerDir);
+  if (previousRef === branch) return { previousRef, stashed: false, restored: false };
+
+  const dirtyFiles = await getDirtyFiles(workerDir);
+  const stashed = dirtyFiles.length > 0;
+  if (stashed) await stashPush(workerDir, autoStashMessage(previousRef));
+
+  try {
+    await git(workerDir, ["checkout", branch]);
+  } catch (e) {
+    // Put the changes back where they came from before reporting the failure.
+    if (stashed) {
+      const own = await findAutoStash(workerDir, previousRef);
+      if (own) await stashPop(workerDir, own.ref).catch(() => undefined);
+    }
+    throw new Error(`git checkout ${branch} failed: ${gitErrorMessage(e)}`);
+  }
+
+  const pending = await findAutoStash(workerDir, branch);
+  if (!pending) return { previousRef, stashed, restored: false };
+  try {
+    await stashPop(workerDir, pending.ref);
+    return { previousRef, stashed, restored: true };
+  } catch (e) {
+    return { previousRef, stashed, restored: false, restoreError: gitErrorMessage(e) };
+  }
+}
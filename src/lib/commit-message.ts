@@ -0,0 +1,16 @@
+import { parseBranchName } from "./branch-name";
+
+export const DEFAULT_COMMIT_MESSAGE_TEMPLATE = "[{key}] {message}";
+
+// The Jira key of the branch goes in front of the subject line only; the body is left as typed.
+export function formatCommitMessage(message: string, branch: string, template: string): string {
+  const { issueKey } = parseBranchName(branch);
+  const [subject, ...body] = String(message || "")
+    .trim()
+    .split("\n");
+  const pattern = template.includes("{message}") ? template : DEFAULT_COMMIT_MESSAGE_TEMPLATE;
+  // Don't prefix twice when the key was typed already.
+  if (!issueKey || !subject || subject.toUpperCase().includes(issueKey)) return [subject, ...body].join("\n");
+  const prefixed = pattern.replace("{key}", issueKey).replace("{message}", () => subject.trim());
+  return [prefixed, ...body].join("\n");
+}
@@ -0,0 +1,92 @@
+import { parseBranchName } from "./branch-name";
+import {
+  AheadBehind,
+  countAheadBehind,
+  getCurrentRef,
+  getDirtyFiles,
+  getUpstream,
+  localBranchExists,
+  refExists,
+} from "./git";
+import {
+  GitLabApprovals,
+  GitLabContext,
+  GitLabMergeRequest,
+  GitLabPipeline,
+  fetchLatestPipeline,
+  fetchMergeRequestApprovals,
+  findOpenMergeRequest,
+} from "./gitlab";
+import { JiraCredentials, JiraIssueDetail, fetchIssueDetail } from "./jira";
+import { getBranchBase } from "./worker-branch";
+
+// Each part loads on its own; a failing service only blanks its own section.
+export type Part<T> = { value: T; error?: undefined } | { value?: undefined; error: string };
+
+export type LocalState = {
+  dirtyFiles: number;
+  upstream: string | null;
+  // Against the upstream when there is one, otherwise against origin/<base> (nothing pushed yet).
+  counts: AheadBehind | null;
+  compareRef: string | null;
+};
+
+export type CurrentWork = {
+  branch: string;
+  isBranch: boolean;
+  issueKey: string | null;
+  local: Part<LocalState>;
+  // null: no Jira key in the branch name, or no Jira credentials.
+  issue: Part<JiraIssueDetail> | null;
+  // null when no GitLab token is configured.
+  pipeline: Part<GitLabPipeline | null> | null;
+  mergeRequest: Part<{ mr: GitLabMergeRequest; approvals: GitLabApprovals | null } | null> | null;
+};
+
+async function part<T>(load: () => Promise<T>): Promise<Part<T>> {
+  try {
+    return { value: await load() };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+async function loadLocalState(workerDir: string, branch: string, fallbackBase: string): Promise<LocalState> {
+  const [dirtyFiles, upstream] = await Promise.all([getDirtyFiles(workerDir), getUpstream(workerDir, branch)]);
+  let compareRef = upstream;
+  if (!compareRef) {
+    const base = (await getBranchBase(workerDir, branch)) ?? fallbackBase;
+    compareRef = (await refExists(workerDir, `origin/${base}`)) ? `origin/${base}` : null;
+  }
+  const counts = compareRef ? await countAheadBehind(workerDir, "HEAD", compareRef).catch(() => null) : null;
+  return { dirtyFiles: dirtyFiles.length, upstream, counts, compareRef };
+}
+
+export async function loadCurrentWork(opts: {
+  workerDir: string;
+  baseBranch: string;
+  jira: JiraCredentials | null;
+  gitlab: GitLabContext | null;
+}): Promise<CurrentWork> {
+  const { workerDir, jira, gitlab } = opts;
+  const branch = await getCurrentRef(workerDir);
+  const isBranch = await localBranchExists(workerDir, branch);
+  const { issueKey } = parseBranchName(branch);
+
+  const [local, issue, pipeline, mergeRequest] = await Promise.all([
+    part(() => loadLocalState(workerDir, branch, opts.baseBranch)),
+    issueKey && jira ? part(() => fetchIssueDetail(jira, issueKey)) : null,
+    gitlab ? part(() => fetchLatestPipeline(gitlab, branch)) : null,
+    gitlab && isBranch
+      ? part(async () => {
+          const mr = await findOpenMergeRequest(gitlab, branch);
+          if (!mr) return null;
+          // Approval rules are a paid GitLab feature; without them the MR is still worth showing.
+          const approvals = await fetchMergeRequestApprovals(gitlab, mr.iid).catch(() => null);
+          return { mr, approvals };
+        })
+      : null,
+  ]);
+
+  return { branch, isBranch, issueKey, local, issue, pipeline, mergeRequest };
+}
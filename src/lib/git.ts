@@ -0,0 +1,401 @@
+import { execFile } from "child_process";
+import { existsSync } from "fs";
+import path from "path";
+import util from "util";
+
+const asyncExecFile = util.promisify(execFile);
+
+// Arguments are passed straight to git (no shell), so branch names and descriptions are never interpolated.
+export async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await asyncExecFile("git", args, { cwd, maxBuffer: 16 * 1024 * 1024 });
+  return stdout;
+}
+
+export type BranchInfo = {
+  branch: string;
+  date?: string;
+  subject?: string;
+  // Short upstream name (e.g. origin/foo), empty when nothing is tracked.
+  upstream?: string;
+  isCurrent: boolean;
+};
+
+export async function getCurrentRef(workerDir: string): Promise<string> {
+  const cwd = String(workerDir || "").trim();
+  if (!cwd) throw new Error("Missing workerDir preference.");
+
+  // Repo sanity
+  await git(cwd, ["rev-parse", "--git-dir"]);
+
+  try {
+    return (await git(cwd, ["symbolic-ref", "--short", "-q", "HEAD"])).trim();
+  } catch {
+    // Detached HEAD
+    return (await git(cwd, ["rev-parse", "--short", "HEAD"])).trim();
+  }
+}
+
+export async function getUpstream(workerDir: string, branch: string): Promise<string | null> {
+  try {
+    const out = await git(workerDir, ["rev-parse", "--abbrev-ref", "--symbolic-full-name", `${branch}@{upstream}`]);
+    return out.trim() || null;
+  } catch {
+    // No upstream configured.
+    return null;
+  }
+}
+
+export async function pushWithUpstream(workerDir: string, branch: string): Promise<void> {
+  await git(workerDir, ["push", "--set-upstream", "origin", branch]);
+}
+
+export type DirtyFile = {
+  status: string;
+  path: string;
+};
+
+export type GitOperation = "rebase" | "merge" | "cherry-pick" | "revert";
+
+export async function getDirtyFiles(workerDir: string): Promise<DirtyFile[]> {
+  const out = await git(workerDir, ["status", "--porcelain"]);
+  return out
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => ({ status: line.slice(0, 2).trim(), path: line.slice(3) }));
+}
+
+export async function getOperationInProgress(workerDir: string): Promise<GitOperation | null> {
+  const markers: [string, GitOperation][] = [
+    ["rebase-merge", "rebase"],
+    ["rebase-apply", "rebase"],
+    ["MERGE_HEAD", "merge"],
+    ["CHERRY_PICK_HEAD", "cherry-pick"],
+    ["REVERT_HEAD", "revert"],
+  ];
+  for (const [marker, operation] of markers) {
+    const markerPath = (await git(workerDir, ["rev-parse", "--git-path", marker])).trim();
+    if (existsSync(path.resolve(workerDir, markerPath))) return operation;
+  }
+  return null;
+}
+
+export async function isValidBranchName(workerDir: string, branch: string): Promise<boolean> {
+  try {
+    await git(workerDir, ["check-ref-format", "--branch", branch]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function localBranchExists(workerDir: string, branch: string): Promise<boolean> {
+  try {
+    await git(workerDir, ["show-ref", "--verify", "--quiet", `refs/heads/${branch}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function remoteBranchExists(workerDir: string, branch: string): Promise<boolean> {
+  try {
+    const out = await git(workerDir, ["ls-remote", "--heads", "origin", `refs/heads/${branch}`]);
+    return out.trim().length > 0;
+  } catch {
+    // Offline: fall back to the last fetched remote-tracking ref.
+    try {
+      await git(workerDir, ["show-ref", "--verify", "--quiet", `refs/remotes/origin/${branch}`]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export function gitErrorMessage(error: unknown): string {
+  if (typeof error === "object" && error && "stderr" in error) {
+    const stderr = String((error as { stderr?: unknown }).stderr || "").trim();
+    if (stderr) return stderr;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+export async function loadBranches(workerDir: string): Promise<{ currentRef: string; branches: BranchInfo[] }> {
+  const cwd = String(workerDir || "").trim();
+  const currentRef = await getCurrentRef(cwd);
+
+  const out = await git(cwd, [
+    "for-each-ref",
+    "--sort=-committerdate",
+    "--format=%(refname:short)\t%(committerdate:short)\t%(upstream:short)\t%(subject)",
+    "refs/heads",
+  ]);
+
+  const branches: BranchInfo[] = out
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const parts = line.split("\t");
+      const branch = (parts[0] || "").trim();
+      const date = (parts[1] || "").trim();
+      const upstream = (parts[2] || "").trim();
+      // Subject might contain tabs (rare), so re-join.
+      const subject = parts.slice(3).join("\t").trim();
+      return {
+        branch,
+        date,
+        subject,
+        upstream,
+        isCurrent: branch === currentRef,
+      } satisfies BranchInfo;
+    })
+    .filter((b) => b.branch.length > 0);
+
+  return { currentRef, branches };
+}
+
+export type Worktree = {
+  path: string;
+  head: string;
+  branch: string | null;
+  isMain: boolean;
+  isLocked: boolean;
+  isPrunable: boolean;
+};
+
+export async function getRepoRoot(workerDir: string): Promise<string> {
+  return (await git(workerDir, ["rev-parse", "--show-toplevel"])).trim();
+}
+
+export async function listWorktrees(workerDir: string): Promise<Worktree[]> {
+  const out = await git(workerDir, ["worktree", "list", "--porcelain"]);
+  // Entries are separated by blank lines; the first one is always the main worktree.
+  return out
+    .split(/\n\s*\n/)
+    .map((block) => block.split("\n").filter(Boolean))
+    .filter((lines) => lines.length > 0)
+    .map((lines, index) => {
+      const value = (key: string) => lines.find((l) => l === key || l.startsWith(`${key} `))?.slice(key.length + 1);
+      const branchRef = value("branch");
+      return {
+        path: value("worktree") ?? "",
+        head: value("HEAD") ?? "",
+        branch: branchRef ? branchRef.replace(/^refs\/heads\//, "") : null,
+        isMain: index === 0,
+        isLocked: lines.some((l) => l === "locked" || l.startsWith("locked ")),
+        isPrunable: lines.some((l) => l === "prunable" || l.startsWith("prunable ")),
+      };
+    });
+}
+
+export async function removeWorktree(workerDir: string, worktreePath: string, force = false): Promise<void> {
+  await git(workerDir, ["worktree", "remove", ...(force ? ["--force"] : []), worktreePath]);
+}
+
+export async function pruneWorktrees(workerDir: string): Promise<void> {
+  await git(workerDir, ["worktree", "prune"]);
+}
+
+export type BranchRef = {
+  branch: string;
+  committerDate: Date;
+  // Short upstream name (e.g. origin/foo), empty when the branch never tracked anything.
+  upstream: string;
+  // The upstream is configured but no longer exists on the remote.
+  upstreamGone: boolean;
+};
+
+export async function listBranchRefs(workerDir: string): Promise<BranchRef[]> {
+  const out = await git(workerDir, [
+    "for-each-ref",
+    "--sort=-committerdate",
+    "--format=%(refname:short)\t%(committerdate:iso-strict)\t%(upstream:short)\t%(upstream:track)",
+    "refs/heads",
+  ]);
+  return out
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      const [branch = "", date = "", upstream = "", track = ""] = line.split("\t");
+      return { branch, committerDate: new Date(date), upstream, upstreamGone: track.includes("gone") };
+    });
+}
+
+// Remote-tracking branches as of the last fetch, most recently committed first, without the remote prefix.
+export async function listRemoteBranches(workerDir: string, remote = "origin"): Promise<string[]> {
+  const out = await git(workerDir, [
+    "for-each-ref",
+    "--sort=-committerdate",
+    "--format=%(refname:lstrip=3)",
+    `refs/remotes/${remote}`,
+  ]);
+  return out
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((branch) => branch && branch !== "HEAD");
+}
+
+export async function listMergedBranches(workerDir: string, ref: string): Promise<string[]> {
+  const out = await git(workerDir, ["for-each-ref", `--merged=${ref}`, "--format=%(refname:short)", "refs/heads"]);
+  return out
+    .split("\n")
+    .map((b) => b.trim())
+    .filter(Boolean);
+}
+
+export async function refExists(workerDir: string, ref: string): Promise<boolean> {
+  try {
+    await git(workerDir, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// `-d` refuses to drop unmerged commits; force is for branches known to be done (squash merges never look merged).
+export async function deleteLocalBranches(workerDir: string, branches: string[], force = false): Promise<void> {
+  if (!branches.length) return;
+  await git(workerDir, ["branch", force ? "-D" : "-d", "--", ...branches]);
+}
+
+export async function deleteRemoteBranches(workerDir: string, remote: string, branches: string[]): Promise<void> {
+  if (!branches.length) return;
+  await git(workerDir, ["push", remote, "--delete", ...branches]);
+}
+
+export type AheadBehind = {
+  ahead: number;
+  behind: number;
+};
+
+// Commits in `ref` that are not in `against` (ahead) and the other way round (behind).
+export async function countAheadBehind(workerDir: string, ref: string, against: string): Promise<AheadBehind> {
+  const out = await git(workerDir, ["rev-list", "--left-right", "--count", `${ref}...${against}`]);
+  const [ahead = "0", behind = "0"] = out.trim().split(/\s+/);
+  return { ahead: Number(ahead) || 0, behind: Number(behind) || 0 };
+}
+
+export type StashEntry = {
+  // e.g. stash@{2}
+  ref: string;
+  message: string;
+};
+
+export async function listStashes(workerDir: string): Promise<StashEntry[]> {
+  const out = await git(workerDir, ["stash", "list", "--format=%gd%x09%gs"]);
+  return out
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      const [ref = "", ...message] = line.split("\t");
+      return { ref, message: message.join("\t") };
+    });
+}
+
+export async function stashPush(workerDir: string, message: string): Promise<void> {
+  await git(workerDir, ["stash", "push", "--include-untracked", "-m", message]);
+}
+
+export async function stashPop(workerDir: string, ref: string): Promise<void> {
+  await git(workerDir, ["stash", "pop", ref]);
+}
+
+export async function listConflictedFiles(workerDir: string): Promise<string[]> {
+  const out = await git(workerDir, ["diff", "--name-only", "--diff-filter=U"]);
+  return out
+    .split("\n")
+    .map((f) => f.trim())
+    .filter(Boolean);
+}
+
+export async function forcePushWithLease(workerDir: string, branch: string): Promise<void> {
+  if (await getUpstream(workerDir, branch)) {
+    await git(workerDir, ["push", "--force-with-lease"]);
+  } else {
+    await git(workerDir, ["push", "--force-with-lease", "--set-upstream", "origin", branch]);
+  }
+}
+
+export async function getConfigValue(workerDir: string, key: string): Promise<string | null> {
+  try {
+    return (await git(workerDir, ["config", "--get", key])).trim() || null;
+  } catch {
+    // `git config --get` exits with 1 when the key is not set.
+    return null;
+  }
+}
+
+export async function setConfigValue(workerDir: string, key: string, value: string): Promise<void> {
+  await git(workerDir, ["config", key, value]);
+}
+
+export type CommitInfo = {
+  sha: string;
+  date: Date;
+  subject: string;
+  // Branch the commit was reached from (`git log --source`).
+  branch: string;
+};
+
+// Commits of `author` (an email or name pattern) on any local branch since `since`, newest first.
+export async function listCommitsSince(workerDir: string, since: Date, author: string): Promise<CommitInfo[]> {
+  const out = await git(workerDir, [
+    "log",
+    "--branches",
+    "--source",
+    "--no-merges",
+    `--since=${since.toISOString()}`,
+    `--author=${author}`,
+    "--format=%h%x09%aI%x09%S%x09%s",
+  ]);
+  return out
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      const [sha = "", date = "", source = "", ...subject] = line.split("\t");
+      return { sha, date: new Date(date), branch: source.replace(/^refs\/heads\//, ""), subject: subject.join("\t") };
+    });
+}
+
+export type StatusEntry = {
+  path: string;
+  // Rename/copy source, when git detected one.
+  origPath?: string;
+  // Porcelain X (index) and Y (worktree) codes; " " means unchanged, "?" untracked.
+  staged: string;
+  unstaged: string;
+};
+
+export async function listStatusEntries(workerDir: string): Promise<StatusEntry[]> {
+  // -z keeps paths unquoted and gives rename sources as a separate field.
+  const fields = (await git(workerDir, ["status", "--porcelain=v1", "-z", "--untracked-files=all"])).split("\0");
+  const entries: StatusEntry[] = [];
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i];
+    if (field.length < 4) continue;
+    const [staged, unstaged] = [field[0], field[1]];
+    const entry: StatusEntry = { path: field.slice(3), staged, unstaged };
+    if (staged === "R" || staged === "C") entry.origPath = fields[++i];
+    entries.push(entry);
+  }
+  return entries;
+}
+
+export async function stageFiles(workerDir: string, paths: string[]): Promise<void> {
+  // -A also stages deletions of the listed paths.
+  await git(workerDir, ["add", "-A", "--", ...paths]);
+}
+
+export async function unstageFiles(workerDir: string, paths: string[]): Promise<void> {
+  await git(workerDir, ["restore", "--staged", "--", ...paths]);
+}
+
+export async function commit(workerDir: string, message: string): Promise<string> {
+  await git(workerDir, ["commit", "-m", message]);
+  return (await git(workerDir, ["rev-parse", "--short", "HEAD"])).trim();
+}
+
+export async function push(workerDir: string): Promise<void> {
+  await git(workerDir, ["push"]);
+}
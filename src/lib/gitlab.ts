@@ -0,0 +1,328 @@
+import { getPreferenceValues } from "@raycast/api";
+import { HttpError, httpErrorFromResponse, httpFetch } from "./http";
+
+export const DEFAULT_GITLAB_BASE_URL = "https://gitlab.ddbuild.io";
+export const GITLAB_PROJECT_PATH = "DataDog/synthetics-worker";
+
+// gitlab.com or a self-managed instance, from the "GitLab Host" preference.
+export function getGitLabBaseUrl(): string {
+  const { gitlabBaseUrl } = getPreferenceValues<{ gitlabBaseUrl?: string }>();
+  return (
+    String(gitlabBaseUrl || "")
+      .trim()
+      .replace(/\/+$/g, "") || DEFAULT_GITLAB_BASE_URL
+  );
+}
+
+// Keep the number of parallel API calls low; GitLab rate limits personal tokens.
+const PIPELINE_FETCH_CONCURRENCY = 4;
+
+export type PipelineStatus =
+  | "created"
+  | "waiting_for_resource"
+  | "preparing"
+  | "pending"
+  | "running"
+  | "success"
+  | "failed"
+  | "canceled"
+  | "skipped"
+  | "manual"
+  | "scheduled";
+
+export type GitLabPipeline = {
+  id: number;
+  iid: number;
+  ref: string;
+  sha: string;
+  status: PipelineStatus;
+  web_url: string;
+  created_at: string;
+  updated_at: string;
+  started_at?: string | null;
+  finished_at?: string | null;
+  duration?: number | null;
+};
+
+// Every API call is scoped to one project; the token is the user's personal access token.
+export type GitLabContext = {
+  token: string;
+  projectPath: string;
+};
+
+export function pipelinesBaseUrl(projectPath: string): string {
+  return `${getGitLabBaseUrl()}/${projectPath}/-/pipelines?page=1&scope=all`;
+}
+
+export function pipelinesUrlForBranch(branch: string, projectPath: string = GITLAB_PROJECT_PATH): string {
+  return `${pipelinesBaseUrl(projectPath)}&ref=${encodeURIComponent(branch)}`;
+}
+
+function apiUrl(path: string): string {
+  return `${getGitLabBaseUrl()}/api/v4${path}`;
+}
+
+function projectApiUrl(projectPath: string, path: string): string {
+  return apiUrl(`/projects/${encodeURIComponent(projectPath)}${path}`);
+}
+
+// Personal, project and group access tokens are all accepted as bearer tokens.
+async function gitlabFetch(url: string, token: string, init?: RequestInit): Promise<Response> {
+  return httpFetch(url, {
+    ...init,
+    service: "GitLab",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      Accept: "application/json",
+      ...init?.headers,
+    },
+  });
+}
+
+async function failedRequestError(res: Response): Promise<HttpError> {
+  return httpErrorFromResponse("GitLab", res);
+}
+
+export async function gitlabRequest<T>(path: string, gitlab: GitLabContext, init?: RequestInit): Promise<T> {
+  const res = await gitlabFetch(projectApiUrl(gitlab.projectPath, path), gitlab.token, init);
+  if (!res.ok) throw await failedRequestError(res);
+  return (await res.json()) as T;
+}
+
+export async function fetchLatestPipeline(gitlab: GitLabContext, ref: string): Promise<GitLabPipeline | null> {
+  const res = await gitlabFetch(
+    projectApiUrl(gitlab.projectPath, `/pipelines/latest?ref=${encodeURIComponent(ref)}`),
+    gitlab.token,
+  );
+  // GitLab answers 404 when the ref has never had a pipeline.
+  if (res.status === 404) return null;
+  if (!res.ok) throw await failedRequestError(res);
+  return (await res.json()) as GitLabPipeline;
+}
+
+export async function fetchLatestPipelines(
+  gitlab: GitLabContext,
+  refs: string[],
+): Promise<Record<string, GitLabPipeline | null>> {
+  const result: Record<string, GitLabPipeline | null> = {};
+  const queue = [...new Set(refs)];
+  const errors: unknown[] = [];
+
+  // One ref failing (timeout, deleted branch) only blanks that ref's status.
+  async function worker() {
+    for (let ref = queue.shift(); ref !== undefined; ref = queue.shift()) {
+      try {
+        result[ref] = await fetchLatestPipeline(gitlab, ref);
+      } catch (e) {
+        result[ref] = null;
+        errors.push(e);
+      }
+    }
+  }
+
+  const count = queue.length;
+  await Promise.all(Array.from({ length: Math.min(PIPELINE_FETCH_CONCURRENCY, count) }, worker));
+  // Every ref failing means GitLab itself is unusable (bad token, unreachable host): let the caller report it.
+  if (count && errors.length === count) throw errors[0];
+  return result;
+}
+
+export type JobStatus = PipelineStatus;
+
+export type GitLabJob = {
+  id: number;
+  name: string;
+  stage: string;
+  status: JobStatus;
+  web_url: string;
+  allow_failure: boolean;
+  created_at: string;
+  started_at?: string | null;
+  finished_at?: string | null;
+  duration?: number | null;
+  failure_reason?: string;
+};
+
+export async function gitlabText(path: string, gitlab: GitLabContext): Promise<string> {
+  const res = await gitlabFetch(projectApiUrl(gitlab.projectPath, path), gitlab.token, {
+    headers: { Accept: "text/plain" },
+  });
+  if (!res.ok) throw await failedRequestError(res);
+  return res.text();
+}
+
+export async function fetchPipelineJobs(gitlab: GitLabContext, pipelineId: number): Promise<GitLabJob[]> {
+  // 100 is the API max per page; worker pipelines stay well under that.
+  return gitlabRequest<GitLabJob[]>(`/pipelines/${pipelineId}/jobs?per_page=100`, gitlab);
+}
+
+export async function fetchJobTrace(gitlab: GitLabContext, jobId: number): Promise<string> {
+  return gitlabText(`/jobs/${jobId}/trace`, gitlab);
+}
+
+export async function retryJob(gitlab: GitLabContext, jobId: number): Promise<GitLabJob> {
+  return gitlabRequest<GitLabJob>(`/jobs/${jobId}/retry`, gitlab, { method: "POST" });
+}
+
+export async function retryPipeline(gitlab: GitLabContext, pipelineId: number): Promise<GitLabPipeline> {
+  return gitlabRequest<GitLabPipeline>(`/pipelines/${pipelineId}/retry`, gitlab, { method: "POST" });
+}
+
+export async function cancelPipeline(gitlab: GitLabContext, pipelineId: number): Promise<GitLabPipeline> {
+  return gitlabRequest<GitLabPipeline>(`/pipelines/${pipelineId}/cancel`, gitlab, { method: "POST" });
+}
+
+export async function createPipeline(gitlab: GitLabContext, ref: string): Promise<GitLabPipeline> {
+  return gitlabRequest<GitLabPipeline>(`/pipeline?ref=${encodeURIComponent(ref)}`, gitlab, { method: "POST" });
+}
+
+export type GitLabUser = {
+  id: number;
+  username: string;
+  name: string;
+};
+
+export type GitLabMergeRequest = {
+  id: number;
+  iid: number;
+  title: string;
+  state: "opened" | "closed" | "locked" | "merged";
+  draft: boolean;
+  source_branch: string;
+  target_branch: string;
+  web_url: string;
+  author: GitLabUser;
+  labels: string[];
+  assignees?: GitLabUser[];
+  reviewers?: GitLabUser[];
+  // Differ when the MR comes from a fork; its branch is then not on origin.
+  project_id: number;
+  source_project_id: number;
+  has_conflicts?: boolean;
+  created_at: string;
+  updated_at: string;
+  merged_at?: string | null;
+};
+
+export type GitLabLabel = {
+  id: number;
+  name: string;
+  color: string;
+};
+
+export type CreateMergeRequestInput = {
+  sourceBranch: string;
+  targetBranch: string;
+  title: string;
+  description?: string;
+  draft: boolean;
+  labels: string[];
+  reviewerIds: number[];
+  removeSourceBranch: boolean;
+};
+
+export async function findOpenMergeRequest(
+  gitlab: GitLabContext,
+  sourceBranch: string,
+): Promise<GitLabMergeRequest | null> {
+  const mrs = await gitlabRequest<GitLabMergeRequest[]>(
+    `/merge_requests?state=opened&source_branch=${encodeURIComponent(sourceBranch)}`,
+    gitlab,
+  );
+  return mrs[0] ?? null;
+}
+
+export type GitLabApprovals = {
+  approved: boolean;
+  approvals_required?: number;
+  approvals_left?: number;
+  approved_by: { user: GitLabUser }[];
+};
+
+export async function fetchMergeRequestApprovals(gitlab: GitLabContext, iid: number): Promise<GitLabApprovals> {
+  return gitlabRequest<GitLabApprovals>(`/merge_requests/${iid}/approvals`, gitlab);
+}
+
+export async function fetchMergeRequestsUpdatedSince(
+  gitlab: GitLabContext,
+  authorUsername: string,
+  since: Date,
+): Promise<GitLabMergeRequest[]> {
+  const params = new URLSearchParams({
+    author_username: authorUsername,
+    updated_after: since.toISOString(),
+    per_page: "100",
+  });
+  return gitlabRequest<GitLabMergeRequest[]>(`/merge_requests?${params}`, gitlab);
+}
+
+// Open MRs of the project where the user is a reviewer or an assignee, most recently updated first.
+export async function fetchMergeRequestsToReview(gitlab: GitLabContext, userId: number): Promise<GitLabMergeRequest[]> {
+  const query = (role: "reviewer_id" | "assignee_id") =>
+    gitlabRequest<GitLabMergeRequest[]>(
+      `/merge_requests?${new URLSearchParams({ state: "opened", [role]: String(userId), per_page: "100" })}`,
+      gitlab,
+    );
+  const [asReviewer, asAssignee] = await Promise.all([query("reviewer_id"), query("assignee_id")]);
+  const byIid = new Map([...asReviewer, ...asAssignee].map((mr) => [mr.iid, mr]));
+  return [...byIid.values()].sort((a, b) => Date.parse(b.updated_at) - Date.parse(a.updated_at));
+}
+
+export async function fetchProjectLabels(gitlab: GitLabContext): Promise<GitLabLabel[]> {
+  return gitlabRequest<GitLabLabel[]>("/labels?per_page=100", gitlab);
+}
+
+export async function findUserByUsername(gitlab: GitLabContext, username: string): Promise<GitLabUser | null> {
+  const res = await gitlabFetch(apiUrl(`/users?username=${encodeURIComponent(username)}`), gitlab.token);
+  if (!res.ok) throw await failedRequestError(res);
+  const users = (await res.json()) as GitLabUser[];
+  return users[0] ?? null;
+}
+
+// The owner of the token.
+export async function fetchCurrentUser(token: string): Promise<GitLabUser> {
+  const res = await gitlabFetch(apiUrl("/user"), token);
+  if (!res.ok) throw await failedRequestError(res);
+  return (await res.json()) as GitLabUser;
+}
+
+// The project's "Enable 'Delete source branch' option by default" setting.
+export async function fetchRemoveSourceBranchDefault(gitlab: GitLabContext): Promise<boolean> {
+  const project = await gitlabRequest<{ remove_source_branch_after_merge?: boolean | null }>("", gitlab);
+  return project.remove_source_branch_after_merge ?? true;
+}
+
+export async function createMergeRequest(
+  gitlab: GitLabContext,
+  input: CreateMergeRequestInput,
+): Promise<GitLabMergeRequest> {
+  // The "Draft:" title prefix is what GitLab itself uses to flag drafts.
+  const title = input.draft && !/^draft:/i.test(input.title) ? `Draft: ${input.title}` : input.title;
+  return gitlabRequest<GitLabMergeRequest>("/merge_requests", gitlab, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      source_branch: input.sourceBranch,
+      target_branch: input.targetBranch,
+      title,
+      description: input.description,
+      labels: input.labels.join(","),
+      reviewer_ids: input.reviewerIds,
+      remove_source_branch: input.removeSourceBranch,
+    }),
+  });
+}
+
+export type GitLabTokenInfo = {
+  name: string;
+  scopes: string[];
+  active: boolean;
+  expires_at: string | null;
+};
+
+// Describes the token making the request, whatever project it is used with.
+export async function fetchTokenInfo(token: string): Promise<GitLabTokenInfo> {
+  const res = await gitlabFetch(apiUrl("/personal_access_tokens/self"), token);
+  if (!res.ok) throw await failedRequestError(res);
+  return (await res.json()) as GitLabTokenInfo;
+}
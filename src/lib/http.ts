@@ -0,0 +1,89 @@
+// Shared fetch wrapper for the Jira and GitLab APIs: timeouts, retries and errors that say which service failed.
+
+export const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_RETRIES = 2;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+export type HttpErrorKind = "auth" | "not-found" | "rate-limited" | "server" | "client" | "timeout" | "network";
+
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly kind: HttpErrorKind,
+    readonly status?: number,
+    readonly body?: string,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export type HttpRequestInit = RequestInit & {
+  // Names the service in error messages, e.g. "Jira request failed (401): …".
+  service: string;
+  timeoutMs?: number;
+  retries?: number;
+};
+
+function errorKind(status: number): HttpErrorKind {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 404) return "not-found";
+  if (status === 429) return "rate-limited";
+  return status >= 500 ? "server" : "client";
+}
+
+// Retry-After is either a number of seconds or an HTTP date.
+function retryDelayMs(res: Response, attempt: number): number {
+  const header = res.headers.get("Retry-After");
+  const seconds = Number(header);
+  const fromHeader = header ? (Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now()) : NaN;
+  const delay = Number.isFinite(fromHeader) && fromHeader >= 0 ? fromHeader : 500 * 2 ** attempt;
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+// 429 means the request was not processed, so it is always safe to send again. A 5xx may have been half
+// applied, so only methods that can be repeated safely are retried.
+function isRetryable(status: number, method: string): boolean {
+  if (status === 429) return true;
+  return status >= 500 && ["GET", "HEAD", "PUT", "DELETE"].includes(method);
+}
+
+export async function httpFetch(url: string, init: HttpRequestInit): Promise<Response> {
+  const { service, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES, ...requestInit } = init;
+  const method = (requestInit.method ?? "GET").toUpperCase();
+
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetch(url, { ...requestInit, signal: AbortSignal.timeout(timeoutMs) });
+    } catch (e) {
+      if (e instanceof Error && e.name === "TimeoutError") {
+        throw new HttpError(`${service} request timed out after ${timeoutMs / 1000}s`, "timeout");
+      }
+      const cause = e instanceof Error ? ((e.cause as Error | undefined)?.message ?? e.message) : String(e);
+      throw new HttpError(`${service} is unreachable: ${cause}`, "network");
+    }
+
+    if (res.ok || attempt >= retries || !isRetryable(res.status, method)) return res;
+    await res.body?.cancel().catch(() => undefined);
+    await new Promise((resolve) => setTimeout(resolve, retryDelayMs(res, attempt)));
+  }
+}
+
+export async function httpErrorFromResponse(service: string, res: Response): Promise<HttpError> {
+  const text = await res.text().catch(() => "");
+  return new HttpError(
+    `${service} request failed (${res.status}): ${text || res.statusText}`,
+    errorKind(res.status),
+    res.status,
+    text,
+  );
+}
+
+// JSON request that throws an HttpError for any non-2xx answer. 204 resolves to undefined.
+export async function httpJson<T>(url: string, init: HttpRequestInit): Promise<T> {
+  const res = await httpFetch(url, init);
+  if (!res.ok) throw await httpErrorFromResponse(init.service, res);
+  if (res.status === 204) return undefined as T;
+  return (await res.json()) as T;
+}
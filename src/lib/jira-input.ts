@@ -0,0 +1,57 @@
+import { Clipboard, getSelectedText } from "@raycast/api";
+import { extractIssueKey } from "./jira";
+
+export function isProbablyUrl(input: string): boolean {
+  const trimmed = String(input || "")
+    .trim()
+    .toLowerCase();
+  return trimmed.startsWith("http://") || trimmed.startsWith("https://");
+}
+
+export function normalizeJiraIdFromInput(input: string, defaultProjectKey: string): string {
+  const trimmed = String(input || "").trim();
+  if (!trimmed) return "";
+
+  // If it's a URL, try extracting the issue key from it.
+  if (isProbablyUrl(trimmed)) {
+    const issueKey = extractIssueKey(trimmed);
+    return issueKey ?? "";
+  }
+
+  // If user typed an issue key, accept it as-is.
+  const issueKey = extractIssueKey(trimmed);
+  if (issueKey) return issueKey;
+
+  // Back-compat: if user typed only digits, prefix with default project key.
+  const digits = trimmed.replace(/\s+/g, "");
+  if (/^\d+$/.test(digits)) {
+    return `${defaultProjectKey}-${digits}`;
+  }
+
+  return "";
+}
+
+export type DetectedJiraInput = {
+  // The text as found, so a URL can go to the link field and a key to the ID field.
+  text: string;
+  issueKey: string;
+  source: "selection" | "clipboard";
+};
+
+// Only a single token (a key, a browse URL, a branch name) counts: any longer text could contain something that
+// merely looks like a key ("UTF-8"), and a bare number is more likely anything else than an issue.
+function jiraInputFrom(text: string | undefined, defaultProjectKey: string): { text: string; issueKey: string } | null {
+  const trimmed = String(text || "").trim();
+  if (!trimmed || trimmed.length > 300 || /\s/.test(trimmed) || /^\d+$/.test(trimmed)) return null;
+  const issueKey = normalizeJiraIdFromInput(trimmed, defaultProjectKey);
+  return issueKey ? { text: trimmed, issueKey } : null;
+}
+
+// The selected text wins over the clipboard, like Raycast's own commands do.
+export async function detectJiraInput(defaultProjectKey: string): Promise<DetectedJiraInput | null> {
+  // getSelectedText throws when nothing is selected or the frontmost app doesn't allow it.
+  const selected = jiraInputFrom(await getSelectedText().catch(() => undefined), defaultProjectKey);
+  if (selected) return { ...selected, source: "selection" };
+  const copied = jiraInputFrom(await Clipboard.readText().catch(() => undefined), defaultProjectKey);
+  return copied ? { ...copied, source: "clipboard" } : null;
+}
@@ -0,0 +1,13 @@
+import { Color } from "@raycast/api";
+import type { JiraIssue } from "./jira";
+
+export function issueStatusColor(issue: JiraIssue): Color {
+  switch (issue.fields.status?.statusCategory?.key) {
+    case "done":
+      return Color.Green;
+    case "indeterminate":
+      return Color.Blue;
+    default:
+      return Color.SecondaryText;
+  }
+}
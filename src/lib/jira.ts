@@ -0,0 +1,510 @@
+import { getPreferenceValues } from "@raycast/api";
+import { AdfNode, textToAdf } from "./adf";
+import { httpJson } from "./http";
+
+export const DEFAULT_JIRA_BASE_URL = "https://datadoghq.atlassian.net";
+export const DEFAULT_JIRA_PROJECT_KEY = "SYNTH";
+
+export function normalizeJiraBaseUrl(input: string): string {
+  const trimmed = String(input || "").trim();
+  return trimmed.replace(/\/+$/g, "");
+}
+
+// Jira Cloud (or any instance) from the "Jira Host" preference.
+export function getJiraBaseUrl(): string {
+  const { jiraBaseUrl } = getPreferenceValues<{ jiraBaseUrl?: string }>();
+  return normalizeJiraBaseUrl(jiraBaseUrl || "") || DEFAULT_JIRA_BASE_URL;
+}
+
+export function normalizeProjectKey(input: string | undefined): string {
+  const trimmed = String(input || "").trim();
+  return (trimmed || DEFAULT_JIRA_PROJECT_KEY).toUpperCase();
+}
+
+export function extractIssueKey(input: string): string | null {
+  // Generic Jira issue key format: ABC-123
+  const match = String(input || "")
+    .toUpperCase()
+    .match(/\b([A-Z][A-Z0-9_]+-\d+)\b/);
+  return match?.[1] ?? null;
+}
+
+export function issueBrowseUrl(issueKey: string): string {
+  return `${getJiraBaseUrl()}/browse/${encodeURIComponent(issueKey)}`;
+}
+
+// "basic": Jira Cloud email + API token. "bearer": personal access token of Jira Server / Data Center.
+export type JiraAuthMode = "basic" | "bearer";
+
+export type JiraCredentials = {
+  jiraEmail: string;
+  jiraApiToken: string;
+  // Basic auth when omitted.
+  authMode?: JiraAuthMode;
+};
+
+// Sprint is a custom field whose ID differs per instance; customfield_10020 is the Jira Cloud default.
+export const DEFAULT_JIRA_SPRINT_FIELD = "customfield_10020";
+
+type JiraCustomField = `customfield_${string}`;
+
+export function getJiraSprintField(): JiraCustomField {
+  const { jiraSprintField } = getPreferenceValues<{ jiraSprintField?: string }>();
+  const trimmed = String(jiraSprintField || "").trim();
+  return /^customfield_\d+$/.test(trimmed) ? (trimmed as JiraCustomField) : DEFAULT_JIRA_SPRINT_FIELD;
+}
+
+export type JiraSprint = {
+  id: number;
+  name: string;
+  state: "active" | "closed" | "future";
+};
+
+export type JiraIssue = {
+  key: string;
+  fields: {
+    summary: string;
+    status?: { id?: string; name: string; statusCategory?: { key: string; colorName?: string } };
+    priority?: { name: string; iconUrl?: string } | null;
+    issuetype?: { name: string; iconUrl?: string };
+    assignee?: JiraUser | null;
+    // The sprint field (see getJiraSprintField()) and any other custom field requested.
+    [customField: JiraCustomField]: unknown;
+  };
+};
+
+export function getJiraCredentials(prefs: {
+  jiraEmail?: string;
+  jiraApiToken?: string;
+  jiraAuthMode?: JiraAuthMode;
+}): JiraCredentials | null {
+  const jiraEmail = String(prefs.jiraEmail || "").trim();
+  const jiraApiToken = String(prefs.jiraApiToken || "").trim();
+  const authMode: JiraAuthMode = prefs.jiraAuthMode === "bearer" ? "bearer" : "basic";
+  // A personal access token identifies the user on its own; Cloud API tokens need the account email.
+  if (!jiraApiToken || (authMode === "basic" && !jiraEmail)) return null;
+  return { jiraEmail, jiraApiToken, authMode };
+}
+
+// The preferences a "missing credentials" message should point to: a personal access token needs no email.
+export function jiraCredentialsPreferenceNames(): string {
+  const { jiraAuthMode } = getPreferenceValues<{ jiraAuthMode?: JiraAuthMode }>();
+  return jiraAuthMode === "bearer" ? "Jira API Token (a personal access token)" : "Jira Email and Jira API Token";
+}
+
+function jiraAuthorization(creds: JiraCredentials): string {
+  if (creds.authMode === "bearer") return `Bearer ${creds.jiraApiToken}`;
+  return `Basic ${Buffer.from(`${creds.jiraEmail}:${creds.jiraApiToken}`).toString("base64")}`;
+}
+
+// Jira Server / Data Center only has the v2 REST API: same resources, but wiki markup instead of ADF
+// and the classic search endpoint.
+function serverApiPath(path: string): string {
+  return path
+    .replace(/^\/rest\/api\/3\/search\/jql\b/, "/rest/api/2/search")
+    .replace(/^\/rest\/api\/3\//, "/rest/api/2/");
+}
+
+// Rich text fields (description, comment body) as the API version in use expects them.
+function jiraDocument(creds: JiraCredentials, text: string): AdfNode | string {
+  return creds.authMode === "bearer" ? text : textToAdf(text);
+}
+
+export async function jiraRequest<T>(path: string, creds: JiraCredentials, init?: RequestInit): Promise<T> {
+  const apiPath = creds.authMode === "bearer" ? serverApiPath(path) : path;
+  // Some endpoints (transitions, assignee) answer 204 without a body; httpJson resolves those to undefined.
+  return httpJson<T>(`${getJiraBaseUrl()}${apiPath}`, {
+    ...init,
+    service: "Jira",
+    headers: {
+      Authorization: jiraAuthorization(creds),
+      Accept: "application/json",
+      ...init?.headers,
+    },
+  });
+}
+
+export async function fetchJiraSummary(opts: { jiraId: string } & JiraCredentials): Promise<string> {
+  return (await fetchIssueBasics(opts)).summary;
+}
+
+export async function fetchIssueBasics(
+  opts: { jiraId: string } & JiraCredentials,
+): Promise<{ summary: string; issueType?: string }> {
+  const json = await jiraRequest<{ fields?: { summary?: string; issuetype?: { name?: string } } }>(
+    `/rest/api/3/issue/${encodeURIComponent(opts.jiraId)}?fields=summary,issuetype`,
+    opts,
+  );
+  const summary = json.fields?.summary?.trim();
+  if (!summary) throw new Error("Jira response missing fields.summary");
+  return { summary, issueType: json.fields?.issuetype?.name };
+}
+
+export async function searchIssues(creds: JiraCredentials, jql: string, maxResults = 50): Promise<JiraIssue[]> {
+  const json = await jiraRequest<{ issues?: JiraIssue[] }>("/rest/api/3/search/jql", creds, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      jql,
+      maxResults,
+      fields: ["summary", "status", "priority", "issuetype", "assignee", getJiraSprintField()],
+    }),
+  });
+  return json.issues ?? [];
+}
+
+// Jira Cloud returns sprints as objects; older Server / Data Center versions as serialized strings
+// ("com.atlassian.greenhopper.service.sprint.Sprint@1a2b[id=12,state=ACTIVE,name=Sprint 4,…]").
+function parseSprint(value: unknown): JiraSprint | null {
+  if (typeof value !== "string") return value && typeof value === "object" ? (value as JiraSprint) : null;
+  const attr = (name: string) => value.match(new RegExp(`[[,]${name}=([^,\\]]*)`))?.[1];
+  const name = attr("name");
+  if (!name) return null;
+  return { id: Number(attr("id")), name, state: (attr("state") ?? "").toLowerCase() as JiraSprint["state"] };
+}
+
+export function activeSprintName(issue: JiraIssue): string | undefined {
+  const raw = issue.fields[getJiraSprintField()];
+  const sprints = (Array.isArray(raw) ? raw : []).map(parseSprint).filter((s): s is JiraSprint => s !== null);
+  return (sprints.find((s) => s.state === "active") ?? sprints[sprints.length - 1])?.name;
+}
+
+export const DEFAULT_JIRA_START_STATUS = "In Progress";
+
+export type JiraTransition = {
+  id: string;
+  name: string;
+  to: { name: string };
+};
+
+export type JiraUser = {
+  // Jira Cloud identifies users by accountId; Server / Data Center by name (username) and key.
+  accountId?: string;
+  name?: string;
+  key?: string;
+  displayName: string;
+  emailAddress?: string;
+};
+
+// The identifier to compare users with, and the one the assignee field expects, for the API version in use.
+export function jiraUserId(creds: JiraCredentials, user: JiraUser): string {
+  return (creds.authMode === "bearer" ? user.name : user.accountId) ?? "";
+}
+
+function jiraUserReference(creds: JiraCredentials, user: JiraUser): { accountId: string } | { name: string } {
+  const id = jiraUserId(creds, user);
+  if (!id)
+    throw new Error(`Jira returned no ${creds.authMode === "bearer" ? "name" : "accountId"} for ${user.displayName}`);
+  return creds.authMode === "bearer" ? { name: id } : { accountId: id };
+}
+
+export type StartWorkOptions = {
+  transitionTo?: string;
+  assignToMe: boolean;
+  comment?: string;
+};
+
+export async function fetchMyself(creds: JiraCredentials): Promise<JiraUser> {
+  return jiraRequest<JiraUser>("/rest/api/3/myself", creds);
+}
+
+export async function fetchTransitions(creds: JiraCredentials, issueKey: string): Promise<JiraTransition[]> {
+  const json = await jiraRequest<{ transitions?: JiraTransition[] }>(
+    `/rest/api/3/issue/${encodeURIComponent(issueKey)}/transitions`,
+    creds,
+  );
+  return json.transitions ?? [];
+}
+
+export async function transitionIssue(creds: JiraCredentials, issueKey: string, transitionId: string): Promise<void> {
+  await jiraRequest<void>(`/rest/api/3/issue/${encodeURIComponent(issueKey)}/transitions`, creds, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ transition: { id: transitionId } }),
+  });
+}
+
+export async function assignIssue(creds: JiraCredentials, issueKey: string, user: JiraUser): Promise<void> {
+  await jiraRequest<void>(`/rest/api/3/issue/${encodeURIComponent(issueKey)}/assignee`, creds, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(jiraUserReference(creds, user)),
+  });
+}
+
+export async function addComment(creds: JiraCredentials, issueKey: string, text: string): Promise<void> {
+  // Jira Cloud v3 only accepts comment bodies in Atlassian Document Format.
+  await jiraRequest<unknown>(`/rest/api/3/issue/${encodeURIComponent(issueKey)}/comment`, creds, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ body: jiraDocument(creds, text) }),
+  });
+}
+
+// Moves an issue to "started" once a branch exists for it. Each step is independent,
+// so the returned list holds one message per step that failed.
+export async function startWorkOnIssue(
+  creds: JiraCredentials,
+  issueKey: string,
+  opts: StartWorkOptions,
+): Promise<string[]> {
+  const errors: string[] = [];
+  const wanted = String(opts.transitionTo || "")
+    .trim()
+    .toLowerCase();
+
+  if (wanted) {
+    try {
+      const issue = await jiraRequest<JiraIssue>(
+        `/rest/api/3/issue/${encodeURIComponent(issueKey)}?fields=status`,
+        creds,
+      );
+      if (issue.fields.status?.name.toLowerCase() !== wanted) {
+        const transitions = await fetchTransitions(creds, issueKey);
+        const match = transitions.find((t) => t.to.name.toLowerCase() === wanted || t.name.toLowerCase() === wanted);
+        if (!match) throw new Error(`No transition to "${opts.transitionTo}" is available.`);
+        await transitionIssue(creds, issueKey, match.id);
+      }
+    } catch (e) {
+      errors.push(`Transition: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  if (opts.assignToMe) {
+    try {
+      const issue = await jiraRequest<JiraIssue>(
+        `/rest/api/3/issue/${encodeURIComponent(issueKey)}?fields=assignee`,
+        creds,
+      );
+      // Never take over an issue someone else already owns.
+      if (!issue.fields.assignee) {
+        const me = await fetchMyself(creds);
+        await assignIssue(creds, issueKey, me);
+      }
+    } catch (e) {
+      errors.push(`Assign: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  if (opts.comment) {
+    try {
+      await addComment(creds, issueKey, opts.comment);
+    } catch (e) {
+      errors.push(`Comment: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  return errors;
+}
+
+// Unlike a `key in (…)` JQL search, bulk fetch skips unknown keys instead of failing the whole request.
+// Server / Data Center has no bulk fetch: see fetchIssuesByKeysWithJql().
+export async function fetchIssuesByKeys(creds: JiraCredentials, keys: string[]): Promise<JiraIssue[]> {
+  const unique = [...new Set(keys)];
+  if (creds.authMode === "bearer") return fetchIssuesByKeysWithJql(creds, unique);
+  const issues: JiraIssue[] = [];
+  for (let i = 0; i < unique.length; i += 100) {
+    const json = await jiraRequest<{ issues?: JiraIssue[] }>("/rest/api/3/issue/bulkfetch", creds, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        issueIdsOrKeys: unique.slice(i, i + 100),
+        fields: ["summary", "status", "priority", "issuetype", "assignee"],
+      }),
+    });
+    issues.push(...(json.issues ?? []));
+  }
+  return issues;
+}
+
+// A strict `key in (…)` search fails with a 400 as soon as one key doesn't exist (deleted issue, typo in a
+// branch name); validateQuery=warn turns unknown keys into warnings so the others are still returned.
+async function fetchIssuesByKeysWithJql(creds: JiraCredentials, keys: string[]): Promise<JiraIssue[]> {
+  const issues: JiraIssue[] = [];
+  for (let i = 0; i < keys.length; i += 100) {
+    const chunk = keys.slice(i, i + 100);
+    const json = await jiraRequest<{ issues?: JiraIssue[] }>("/rest/api/3/search/jql", creds, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jql: `key in (${chunk.map((k) => `"${k}"`).join(", ")})`,
+        maxResults: chunk.length,
+        validateQuery: "warn",
+        fields: ["summary", "status", "priority", "issuetype", "assignee"],
+      }),
+    });
+    issues.push(...(json.issues ?? []));
+  }
+  return issues;
+}
+
+export function isIssueDone(issue: JiraIssue): boolean {
+  return issue.fields.status?.statusCategory?.key === "done";
+}
+
+export const DEFAULT_JIRA_BOARD_URL = "https://datadoghq.atlassian.net/jira/software/c/projects/SYNTH/boards/3245";
+
+// Accepts both `…/boards/3245` (Jira Software) and `…?rapidView=3245` (classic) board URLs.
+export function parseBoardId(boardUrl: string): number | null {
+  const match = String(boardUrl || "").match(/\/boards\/(\d+)|[?&]rapidView=(\d+)/);
+  const id = match ? Number(match[1] ?? match[2]) : NaN;
+  return Number.isFinite(id) ? id : null;
+}
+
+export type JiraBoardColumn = {
+  name: string;
+  statusIds: string[];
+};
+
+export async function fetchBoardColumns(creds: JiraCredentials, boardId: number): Promise<JiraBoardColumn[]> {
+  const json = await jiraRequest<{
+    columnConfig?: { columns?: { name: string; statuses?: { id: string }[] }[] };
+  }>(`/rest/agile/1.0/board/${boardId}/configuration`, creds);
+  return (json.columnConfig?.columns ?? []).map((c) => ({
+    name: c.name,
+    statusIds: (c.statuses ?? []).map((s) => s.id),
+  }));
+}
+
+export type JiraBoardSprint = JiraSprint & {
+  endDate?: string;
+  goal?: string;
+};
+
+export async function fetchActiveSprint(creds: JiraCredentials, boardId: number): Promise<JiraBoardSprint | null> {
+  const json = await jiraRequest<{ values?: JiraBoardSprint[] }>(
+    `/rest/agile/1.0/board/${boardId}/sprint?state=active`,
+    creds,
+  );
+  return json.values?.[0] ?? null;
+}
+
+// Sprints an issue can still be added to: the active one first, then the planned ones.
+export async function fetchOpenSprints(creds: JiraCredentials, boardId: number): Promise<JiraBoardSprint[]> {
+  const json = await jiraRequest<{ values?: JiraBoardSprint[] }>(
+    `/rest/agile/1.0/board/${boardId}/sprint?state=active,future`,
+    creds,
+  );
+  return (json.values ?? []).sort((a, b) => Number(b.state === "active") - Number(a.state === "active"));
+}
+
+export async function fetchSprintIssues(
+  creds: JiraCredentials,
+  boardId: number,
+  sprintId: number,
+): Promise<JiraIssue[]> {
+  const issues: JiraIssue[] = [];
+  const fields = ["summary", "status", "priority", "issuetype", "assignee"].join(",");
+  for (;;) {
+    const json = await jiraRequest<{ issues?: JiraIssue[]; total?: number }>(
+      `/rest/agile/1.0/board/${boardId}/sprint/${sprintId}/issue?startAt=${issues.length}&maxResults=100&fields=${fields}`,
+      creds,
+    );
+    const page = json.issues ?? [];
+    issues.push(...page);
+    if (!page.length || issues.length >= (json.total ?? 0)) return issues;
+  }
+}
+
+export type JiraLinkedIssue = {
+  key: string;
+  fields: { summary: string; status?: { name: string } };
+};
+
+export type JiraIssueLink = {
+  type: { inward: string; outward: string };
+  inwardIssue?: JiraLinkedIssue;
+  outwardIssue?: JiraLinkedIssue;
+};
+
+export type JiraComment = {
+  id: string;
+  author?: { displayName: string };
+  body: AdfNode | string;
+  created: string;
+};
+
+export type JiraIssueDetail = JiraIssue & {
+  fields: JiraIssue["fields"] & {
+    description?: AdfNode | string | null;
+    comment?: { comments: JiraComment[]; total?: number };
+    issuelinks?: JiraIssueLink[];
+  };
+};
+
+export async function fetchIssueDetail(creds: JiraCredentials, issueKey: string): Promise<JiraIssueDetail> {
+  const fields = ["summary", "status", "priority", "issuetype", "assignee", "description", "comment", "issuelinks"];
+  return jiraRequest<JiraIssueDetail>(
+    `/rest/api/3/issue/${encodeURIComponent(issueKey)}?fields=${fields.join(",")}`,
+    creds,
+  );
+}
+
+export type JiraIssueType = {
+  id: string;
+  name: string;
+  subtask?: boolean;
+  iconUrl?: string;
+};
+
+export type JiraPriority = {
+  id: string;
+  name: string;
+  iconUrl?: string;
+  isDefault?: boolean;
+};
+
+// Issue types the current user can create in the project (sub-tasks need a parent, so they are left out).
+export async function fetchCreateIssueTypes(creds: JiraCredentials, projectKey: string): Promise<JiraIssueType[]> {
+  // Older sites answer with `values`, newer ones with `issueTypes`.
+  const json = await jiraRequest<{ issueTypes?: JiraIssueType[]; values?: JiraIssueType[] }>(
+    `/rest/api/3/issue/createmeta/${encodeURIComponent(projectKey)}/issuetypes?maxResults=100`,
+    creds,
+  );
+  return (json.issueTypes ?? json.values ?? []).filter((t) => !t.subtask);
+}
+
+export async function fetchPriorities(creds: JiraCredentials): Promise<JiraPriority[]> {
+  return jiraRequest<JiraPriority[]>("/rest/api/3/priority", creds);
+}
+
+export async function fetchOpenEpics(creds: JiraCredentials, projectKey: string): Promise<JiraIssue[]> {
+  return searchIssues(
+    creds,
+    `project = "${projectKey}" AND issuetype = Epic AND statusCategory != Done ORDER BY updated DESC`,
+    100,
+  );
+}
+
+export type CreateIssueInput = {
+  projectKey: string;
+  summary: string;
+  issueTypeId: string;
+  priorityId?: string;
+  description?: string;
+  parentKey?: string;
+  sprintId?: number;
+  assignee?: JiraUser;
+};
+
+export async function createIssue(creds: JiraCredentials, input: CreateIssueInput): Promise<string> {
+  const description = input.description?.trim();
+  const json = await jiraRequest<{ key: string }>("/rest/api/3/issue", creds, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      fields: {
+        project: { key: input.projectKey },
+        summary: input.summary,
+        issuetype: { id: input.issueTypeId },
+        ...(input.priorityId ? { priority: { id: input.priorityId } } : {}),
+        ...(description ? { description: jiraDocument(creds, description) } : {}),
+        ...(input.parentKey ? { parent: { key: input.parentKey } } : {}),
+        // The sprint field takes a bare sprint ID on create, which keeps issue + sprint a single request.
+        ...(input.sprintId ? { [getJiraSprintField()]: input.sprintId } : {}),
+        ...(input.assignee ? { assignee: jiraUserReference(creds, input.assignee) } : {}),
+      },
+    }),
+  });
+  return json.key;
+}
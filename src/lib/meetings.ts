@@ -0,0 +1,137 @@
+import { LocalStorage, getPreferenceValues } from "@raycast/api";
+
+const STORAGE_KEY = "meetings";
+
+// The built-in Daily takes its link from the Daily Zoom URL preference; only its schedule is stored.
+export const DAILY_MEETING_ID = "daily";
+
+// Meetings starting within this many minutes count as "next" for Join Next Meeting.
+export const JOIN_EARLY_MINUTES = 10;
+
+export const WEEKDAYS = [
+  { value: 1, title: "Monday", short: "Mon" },
+  { value: 2, title: "Tuesday", short: "Tue" },
+  { value: 3, title: "Wednesday", short: "Wed" },
+  { value: 4, title: "Thursday", short: "Thu" },
+  { value: 5, title: "Friday", short: "Fri" },
+  { value: 6, title: "Saturday", short: "Sat" },
+  { value: 0, title: "Sunday", short: "Sun" },
+];
+
+export type Meeting = {
+  id: string;
+  name: string;
+  url: string;
+  // Date#getDay() values: 0 = Sunday … 6 = Saturday.
+  weekdays: number[];
+  // Local time, HH:MM.
+  startTime: string;
+  durationMinutes: number;
+};
+
+type MeetingPreferences = {
+  dailyZoomUrl: string;
+};
+
+const DEFAULT_DAILY_SCHEDULE: Omit<Meeting, "id" | "url"> = {
+  name: "Daily",
+  weekdays: [1, 2, 3, 4, 5],
+  startTime: "09:30",
+  durationMinutes: 15,
+};
+
+async function loadStoredMeetings(): Promise<Meeting[]> {
+  const raw = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as Meeting[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function loadMeetings(): Promise<Meeting[]> {
+  const { dailyZoomUrl } = getPreferenceValues<MeetingPreferences>();
+  const stored = await loadStoredMeetings();
+  const dailySchedule = stored.find((m) => m.id === DAILY_MEETING_ID) ?? DEFAULT_DAILY_SCHEDULE;
+  const daily: Meeting = {
+    ...DEFAULT_DAILY_SCHEDULE,
+    ...dailySchedule,
+    id: DAILY_MEETING_ID,
+    url: String(dailyZoomUrl || "").trim(),
+  };
+  return [daily, ...stored.filter((m) => m.id !== DAILY_MEETING_ID)];
+}
+
+export async function saveMeeting(meeting: Meeting): Promise<void> {
+  const stored = await loadStoredMeetings();
+  // Never persist the Daily link: the preference stays the source of truth.
+  const toStore = meeting.id === DAILY_MEETING_ID ? { ...meeting, url: "" } : meeting;
+  const index = stored.findIndex((m) => m.id === meeting.id);
+  if (index >= 0) stored[index] = toStore;
+  else stored.push(toStore);
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+export async function deleteMeeting(id: string): Promise<void> {
+  if (id === DAILY_MEETING_ID) throw new Error("The Daily meeting is configured in extension preferences.");
+  const stored = await loadStoredMeetings();
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(stored.filter((m) => m.id !== id)));
+}
+
+export function parseStartTime(input: string): { hours: number; minutes: number } | null {
+  const match = String(input || "")
+    .trim()
+    .match(/^(\d{1,2})[:h.](\d{2})$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return { hours, minutes };
+}
+
+export function formatSchedule(meeting: Meeting): string {
+  const days = WEEKDAYS.filter((d) => meeting.weekdays.includes(d.value))
+    .map((d) => d.short)
+    .join(", ");
+  return `${days || "No days"} · ${meeting.startTime} · ${meeting.durationMinutes} min`;
+}
+
+// Next start of the meeting whose end is still ahead of `now` (so a meeting in progress returns today's start).
+export function nextOccurrence(meeting: Meeting, now: Date = new Date()): Date | null {
+  const time = parseStartTime(meeting.startTime);
+  if (!time || !meeting.weekdays.length) return null;
+  for (let offset = 0; offset <= 7; offset++) {
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset, time.hours, time.minutes);
+    if (!meeting.weekdays.includes(start.getDay())) continue;
+    const end = start.getTime() + meeting.durationMinutes * 60 * 1000;
+    if (end > now.getTime()) return start;
+  }
+  return null;
+}
+
+export type UpcomingMeeting = {
+  meeting: Meeting;
+  start: Date;
+  inProgress: boolean;
+};
+
+export function upcomingMeetings(meetings: Meeting[], now: Date = new Date()): UpcomingMeeting[] {
+  return meetings
+    .map((meeting) => ({ meeting, start: nextOccurrence(meeting, now) }))
+    .filter((m): m is { meeting: Meeting; start: Date } => m.start !== null)
+    .map(({ meeting, start }) => ({ meeting, start, inProgress: start.getTime() <= now.getTime() }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// A meeting in progress, or the first one starting within JOIN_EARLY_MINUTES.
+export function meetingToJoin(meetings: Meeting[], now: Date = new Date()): UpcomingMeeting | null {
+  const [next] = upcomingMeetings(
+    meetings.filter((m) => m.url),
+    now,
+  );
+  if (!next) return null;
+  if (next.inProgress || next.start.getTime() - now.getTime() <= JOIN_EARLY_MINUTES * 60 * 1000) return next;
+  return null;
+}
@@ -0,0 +1,25 @@
+import { showHUD } from "@raycast/api";
+import { execFile } from "child_process";
+import util from "util";
+
+const asyncExecFile = util.promisify(execFile);
+
+// Raycast has no notification API for background commands, so go through Notification Center.
+// Title and message are passed as script arguments, never spliced into the AppleScript source.
+// osascript only exists on macOS; elsewhere (Windows) the HUD is the closest thing Raycast offers.
+export async function notify(title: string, message: string): Promise<void> {
+  if (process.platform !== "darwin") {
+    await showHUD(`${title} — ${message}`);
+    return;
+  }
+  await asyncExecFile("osascript", [
+    "-e",
+    "on run argv",
+    "-e",
+    "display notification (item 2 of argv) with title (item 1 of argv)",
+    "-e",
+    "end run",
+    title,
+    message,
+  ]);
+}
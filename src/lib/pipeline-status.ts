@@ -0,0 +1,83 @@
+import { Color, Icon, List } from "@raycast/api";
+import type { GitLabPipeline, PipelineStatus } from "./gitlab";
+
+type StatusPresentation = {
+  label: string;
+  icon: Icon;
+  color: Color;
+};
+
+function presentStatus(status: PipelineStatus): StatusPresentation {
+  switch (status) {
+    case "success":
+      return { label: "passed", icon: Icon.CheckCircle, color: Color.Green };
+    case "failed":
+      return { label: "failed", icon: Icon.XMarkCircle, color: Color.Red };
+    case "canceled":
+      return { label: "canceled", icon: Icon.MinusCircle, color: Color.SecondaryText };
+    case "skipped":
+      return { label: "skipped", icon: Icon.ArrowRightCircle, color: Color.SecondaryText };
+    case "manual":
+    case "scheduled":
+      return { label: status, icon: Icon.Pause, color: Color.Purple };
+    case "running":
+      return { label: "running", icon: Icon.CircleProgress50, color: Color.Blue };
+    default:
+      // created / pending / preparing / waiting_for_resource: queued but not started yet.
+      return { label: "pending", icon: Icon.Clock, color: Color.Orange };
+  }
+}
+
+export function pipelineStatusLabel(status: PipelineStatus): string {
+  return presentStatus(status).label;
+}
+
+export function pipelineStatusIcon(status: PipelineStatus): { source: Icon; tintColor: Color } {
+  const { icon, color } = presentStatus(status);
+  return { source: icon, tintColor: color };
+}
+
+export function formatDuration(totalSeconds: number): string {
+  const s = Math.max(0, Math.round(totalSeconds));
+  const hours = Math.floor(s / 3600);
+  const minutes = Math.floor((s % 3600) / 60);
+  const seconds = s % 60;
+  if (hours) return `${hours}h ${String(minutes).padStart(2, "0")}m`;
+  if (minutes) return `${minutes}m ${String(seconds).padStart(2, "0")}s`;
+  return `${seconds}s`;
+}
+
+export function pipelineDurationSeconds(pipeline: GitLabPipeline): number | null {
+  if (typeof pipeline.duration === "number") return pipeline.duration;
+  // Running pipelines have no duration yet; show elapsed time since start.
+  if (pipeline.started_at && !pipeline.finished_at) {
+    return (Date.now() - new Date(pipeline.started_at).getTime()) / 1000;
+  }
+  return null;
+}
+
+export function pipelineAccessories(pipeline: GitLabPipeline | null | undefined): List.Item.Accessory[] {
+  if (!pipeline) return [];
+
+  const label = pipelineStatusLabel(pipeline.status);
+  const accessories: List.Item.Accessory[] = [
+    { icon: pipelineStatusIcon(pipeline.status), text: label, tooltip: `Pipeline #${pipeline.id}: ${label}` },
+  ];
+
+  const duration = pipelineDurationSeconds(pipeline);
+  if (duration !== null) {
+    accessories.push({ icon: Icon.Stopwatch, text: formatDuration(duration), tooltip: "Duration" });
+  }
+
+  accessories.push({ date: new Date(pipeline.created_at), tooltip: `Created ${pipeline.created_at}` });
+  return accessories;
+}
+
+export function isPipelineFinished(status: PipelineStatus): boolean {
+  return status === "success" || status === "failed" || status === "canceled" || status === "skipped";
+}
+
+// GitLab only cancels what hasn't finished: created, queued or running (manual and scheduled wait for a trigger).
+export function isPipelineCancelable(status: PipelineStatus): boolean {
+  return !isPipelineFinished(status) && status !== "manual" && status !== "scheduled";
+}
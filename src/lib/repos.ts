@@ -0,0 +1,107 @@
+import { LocalStorage, getPreferenceValues } from "@raycast/api";
+import { git } from "./git";
+import { GITLAB_PROJECT_PATH, getGitLabBaseUrl } from "./gitlab";
+import { normalizeProjectKey } from "./jira";
+
+const STORAGE_KEY = "repo-profiles";
+
+// The built-in profile mirrors the extension preferences and can't be deleted.
+export const DEFAULT_REPO_ID = "default";
+export const DEFAULT_BASE_BRANCHES = ["prod", "waiting-thaw"];
+export const DEFAULT_PIPELINE_BRANCHES = ["prod", "staging"];
+
+export type RepoProfile = {
+  id: string;
+  name: string;
+  directory: string;
+  // GitLab project path (e.g. DataDog/synthetics-worker). Empty = detect from `origin`.
+  gitlabProject: string;
+  baseBranches: string[];
+  // Branches pinned in the Quick Open section of Open GitLab Pipelines.
+  pipelineBranches: string[];
+  jiraProjectKey: string;
+};
+
+type RepoPreferences = {
+  workerDir: string;
+  jiraDefaultProjectKey?: string;
+};
+
+export function defaultRepoProfile(): RepoProfile {
+  const prefs = getPreferenceValues<RepoPreferences>();
+  return {
+    id: DEFAULT_REPO_ID,
+    name: "synthetics-worker",
+    directory: String(prefs.workerDir || "").trim(),
+    gitlabProject: GITLAB_PROJECT_PATH,
+    baseBranches: DEFAULT_BASE_BRANCHES,
+    pipelineBranches: DEFAULT_PIPELINE_BRANCHES,
+    jiraProjectKey: normalizeProjectKey(prefs.jiraDefaultProjectKey),
+  };
+}
+
+async function loadStoredProfiles(): Promise<RepoProfile[]> {
+  const raw = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as RepoProfile[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function loadRepoProfiles(): Promise<RepoProfile[]> {
+  return [defaultRepoProfile(), ...(await loadStoredProfiles())];
+}
+
+export async function saveRepoProfile(profile: RepoProfile): Promise<void> {
+  if (profile.id === DEFAULT_REPO_ID) throw new Error("The default repository is configured in extension preferences.");
+  const stored = await loadStoredProfiles();
+  const index = stored.findIndex((p) => p.id === profile.id);
+  if (index >= 0) stored[index] = profile;
+  else stored.push(profile);
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+export async function deleteRepoProfile(id: string): Promise<void> {
+  const stored = await loadStoredProfiles();
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(stored.filter((p) => p.id !== id)));
+}
+
+export function parseBranchList(input: string): string[] {
+  return String(input || "")
+    .split(/[\s,]+/)
+    .map((b) => b.trim())
+    .filter(Boolean);
+}
+
+// Accepts both `git@host:group/project.git` and `https://host/group/project.git` remotes.
+export function parseGitLabProjectFromRemote(remoteUrl: string): string | null {
+  const trimmed = String(remoteUrl || "").trim();
+  const host = new URL(getGitLabBaseUrl()).host;
+  const scp = trimmed.match(/^[^@/]+@([^:]+):(.+?)(?:\.git)?\/?$/);
+  if (scp) return scp[1] === host ? scp[2] : null;
+  try {
+    const url = new URL(trimmed);
+    if (url.host !== host) return null;
+    return url.pathname.replace(/^\/+/, "").replace(/(\.git)?\/*$/, "") || null;
+  } catch {
+    return null;
+  }
+}
+
+export async function detectGitLabProject(directory: string): Promise<string | null> {
+  try {
+    return parseGitLabProjectFromRemote(await git(directory, ["remote", "get-url", "origin"]));
+  } catch {
+    return null;
+  }
+}
+
+export async function resolveGitLabProject(profile: RepoProfile): Promise<string> {
+  if (profile.gitlabProject) return profile.gitlabProject;
+  const detected = await detectGitLabProject(profile.directory);
+  if (!detected) throw new Error(`Couldn't detect the GitLab project of ${profile.directory} from its origin remote.`);
+  return detected;
+}
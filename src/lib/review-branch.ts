@@ -0,0 +1,127 @@
+import { LocalStorage } from "@raycast/api";
+import { existsSync } from "fs";
+import { SwitchBranchResult, switchBranch } from "./branch-switch";
+import { getRepoRoot, git, gitErrorMessage, listWorktrees, localBranchExists } from "./git";
+import { GitLabMergeRequest } from "./gitlab";
+import { worktreePathFor } from "./worker-branch";
+
+const RETURN_STORAGE_PREFIX = "review-return";
+
+// Where Review Merge Requests came from, per repository, so "Back to …" survives closing Raycast.
+export type ReviewReturn = {
+  // The branch that was checked out before the first review checkout.
+  returnTo: string;
+  // The review branch checked out last; reviewing another MR from it keeps returnTo.
+  reviewing: string;
+};
+
+export type ReviewCheckoutResult = {
+  branch: string;
+  // Set when the local branch has commits the MR doesn't have, so it couldn't be fast-forwarded.
+  updateError?: string;
+};
+
+function isFork(mr: GitLabMergeRequest): boolean {
+  return mr.source_project_id !== mr.project_id;
+}
+
+// Same-project MRs are reviewed on their own branch (tracking origin, so fixups can be pushed).
+// Fork branches aren't on origin: they are fetched from the MR's head ref into a local-only branch.
+export function reviewBranchName(mr: GitLabMergeRequest): string {
+  return isFork(mr) ? `mr-${mr.iid}/${mr.source_branch}` : mr.source_branch;
+}
+
+async function fetchMergeRequestHead(workerDir: string, mr: GitLabMergeRequest): Promise<string> {
+  try {
+    if (!isFork(mr)) {
+      await git(workerDir, ["fetch", "origin", mr.source_branch]);
+      return `origin/${mr.source_branch}`;
+    }
+    const ref = `refs/remotes/origin/merge-requests/${mr.iid}`;
+    await git(workerDir, ["fetch", "origin", `+refs/merge-requests/${mr.iid}/head:${ref}`]);
+    return ref;
+  } catch (e) {
+    throw new Error(`git fetch of !${mr.iid} failed: ${gitErrorMessage(e)}`);
+  }
+}
+
+async function fastForward(cwd: string, ref: string): Promise<string | undefined> {
+  try {
+    await git(cwd, ["merge", "--ff-only", ref]);
+    return undefined;
+  } catch (e) {
+    return gitErrorMessage(e);
+  }
+}
+
+function returnStorageKey(repoRoot: string): string {
+  return `${RETURN_STORAGE_PREFIX}:${repoRoot}`;
+}
+
+export async function loadReviewReturn(workerDir: string): Promise<ReviewReturn | null> {
+  const raw = await LocalStorage.getItem<string>(returnStorageKey(await getRepoRoot(workerDir)));
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as ReviewReturn;
+  } catch {
+    return null;
+  }
+}
+
+async function recordReviewReturn(workerDir: string, previousRef: string, reviewing: string): Promise<void> {
+  if (previousRef === reviewing) return;
+  const stored = await loadReviewReturn(workerDir);
+  const returnTo = stored && stored.reviewing === previousRef ? stored.returnTo : previousRef;
+  await LocalStorage.setItem(
+    returnStorageKey(await getRepoRoot(workerDir)),
+    JSON.stringify({ returnTo, reviewing } satisfies ReviewReturn),
+  );
+}
+
+// Checks out the MR's source branch in workerDir; uncommitted changes are auto-stashed like Switch Branch does.
+export async function checkoutReviewBranch(
+  workerDir: string,
+  mr: GitLabMergeRequest,
+): Promise<ReviewCheckoutResult & SwitchBranchResult> {
+  const ref = await fetchMergeRequestHead(workerDir, mr);
+  const branch = reviewBranchName(mr);
+  if (!(await localBranchExists(workerDir, branch))) {
+    await git(workerDir, ["branch", isFork(mr) ? "--no-track" : "--track", branch, ref]);
+  }
+
+  const result = await switchBranch(workerDir, branch);
+  await recordReviewReturn(workerDir, result.previousRef, branch);
+  return { ...result, branch, updateError: await fastForward(workerDir, ref) };
+}
+
+// Checks out the MR's source branch in a sibling worktree, reusing the one that already has it.
+export async function checkoutReviewWorktree(
+  workerDir: string,
+  mr: GitLabMergeRequest,
+): Promise<ReviewCheckoutResult & { worktreePath: string }> {
+  const ref = await fetchMergeRequestHead(workerDir, mr);
+  const branch = reviewBranchName(mr);
+
+  const existing = (await listWorktrees(workerDir)).find((w) => w.branch === branch && !w.isPrunable);
+  if (existing) {
+    return { branch, worktreePath: existing.path, updateError: await fastForward(existing.path, ref) };
+  }
+
+  const worktreePath = worktreePathFor(await getRepoRoot(workerDir), branch);
+  if (existsSync(worktreePath)) throw new Error(`${worktreePath} already exists.`);
+  if (await localBranchExists(workerDir, branch)) {
+    await git(workerDir, ["worktree", "add", worktreePath, branch]);
+    return { branch, worktreePath, updateError: await fastForward(worktreePath, ref) };
+  }
+  await git(workerDir, ["worktree", "add", isFork(mr) ? "--no-track" : "--track", "-b", branch, worktreePath, ref]);
+  return { branch, worktreePath };
+}
+
+// Switches back to the branch that was checked out before reviewing, restoring its auto-stash.
+export async function returnFromReview(workerDir: string): Promise<SwitchBranchResult & { branch: string }> {
+  const stored = await loadReviewReturn(workerDir);
+  if (!stored) throw new Error("No branch to return to: nothing was checked out for review.");
+  const result = await switchBranch(workerDir, stored.returnTo);
+  await LocalStorage.removeItem(returnStorageKey(await getRepoRoot(workerDir)));
+  return { ...result, branch: stored.returnTo };
+}
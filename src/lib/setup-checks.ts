@@ -0,0 +1,185 @@
+import { existsSync } from "fs";
+import { getConfigValue, git } from "./git";
+import { fetchTokenInfo, getGitLabBaseUrl } from "./gitlab";
+import { HttpError } from "./http";
+import {
+  DEFAULT_JIRA_BOARD_URL,
+  JiraAuthMode,
+  fetchMyself,
+  getJiraBaseUrl,
+  getJiraCredentials,
+  parseBoardId,
+} from "./jira";
+
+export type SetupPreferences = {
+  workerDir: string;
+  gitUsername: string;
+  dailyZoomUrl: string;
+  jiraBoardUrl?: string;
+  jiraEmail?: string;
+  jiraApiToken?: string;
+  jiraAuthMode?: JiraAuthMode;
+  gitlabToken?: string;
+};
+
+export type SetupCheckStatus = "ok" | "warning" | "error";
+
+export type SetupCheck = {
+  id: string;
+  title: string;
+  status: SetupCheckStatus;
+  message: string;
+  // Where to fix the problem; without a URL the fix is in the extension preferences.
+  fix?: { title: string; url: string };
+};
+
+const JIRA_CLOUD_TOKEN_URL = "https://id.atlassian.com/manage-profile/security/api-tokens";
+const JIRA_SERVER_TOKEN_PATH =
+  "/secure/ViewProfile.jspa?selectedTab=com.atlassian.pats.pats-plugin:jira-user-personal-access-tokens";
+const GITLAB_TOKEN_PATH = "/-/user_settings/personal_access_tokens";
+const TOKEN_EXPIRY_WARNING_DAYS = 7;
+
+type CheckResult = Omit<SetupCheck, "id" | "title">;
+
+// http:// is allowed too, so the extension can be pointed at a local mock server.
+function parseWebUrl(input: string): URL | null {
+  try {
+    const url = new URL(input);
+    return url.protocol === "https:" || url.protocol === "http:" ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+async function checkWorkerDir(workerDir: string): Promise<CheckResult> {
+  if (!workerDir) return { status: "error", message: "Not set." };
+  if (!existsSync(workerDir)) return { status: "error", message: `${workerDir} does not exist.` };
+  try {
+    await git(workerDir, ["rev-parse", "--git-dir"]);
+  } catch {
+    return { status: "error", message: `${workerDir} is not inside a git repository.` };
+  }
+  try {
+    const origin = (await git(workerDir, ["remote", "get-url", "origin"])).trim();
+    return { status: "ok", message: `Git repository, origin is ${origin}` };
+  } catch {
+    return { status: "error", message: "The repository has no origin remote." };
+  }
+}
+
+async function checkGitUsername(gitUsername: string, workerDir: string): Promise<CheckResult> {
+  if (!gitUsername) return { status: "error", message: "Not set." };
+  if (/[\s/~^:?*[\\]/.test(gitUsername)) {
+    return { status: "error", message: `"${gitUsername}" can't be used in a branch name.` };
+  }
+  // Branch names use the local part of the work email (jane.doe@… → jane.doe).
+  const email =
+    workerDir && existsSync(workerDir) ? await getConfigValue(workerDir, "user.email").catch(() => null) : null;
+  if (!email) return { status: "warning", message: "git config user.email is not set, so it can't be compared." };
+  const expected = email.split("@")[0];
+  if (expected.toLowerCase() !== gitUsername.toLowerCase()) {
+    return {
+      status: "warning",
+      message: `git config user.email is ${email}; branches usually start with "${expected}".`,
+    };
+  }
+  return { status: "ok", message: `Matches git config user.email (${email})` };
+}
+
+async function checkJira(prefs: SetupPreferences): Promise<CheckResult> {
+  const host = parseWebUrl(getJiraBaseUrl());
+  if (!host) return { status: "error", message: `Jira Host "${getJiraBaseUrl()}" is not an http(s) URL.` };
+  const creds = getJiraCredentials(prefs);
+  const fix =
+    prefs.jiraAuthMode === "bearer"
+      ? { title: "Create Jira Personal Access Token", url: `${getJiraBaseUrl()}${JIRA_SERVER_TOKEN_PATH}` }
+      : { title: "Create Jira API Token", url: JIRA_CLOUD_TOKEN_URL };
+  if (!creds) {
+    return { status: "warning", message: "Credentials not set: Jira features are disabled.", fix };
+  }
+  try {
+    const me = await fetchMyself(creds);
+    return { status: "ok", message: `Signed in to ${host.hostname} as ${me.displayName}` };
+  } catch (e) {
+    if (e instanceof HttpError && e.kind === "auth") {
+      const who = creds.authMode === "bearer" ? "the personal access token" : `${creds.jiraEmail} and its API token`;
+      return { status: "error", message: `${host.hostname} rejected ${who}.`, fix };
+    }
+    return { status: "error", message: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+async function checkGitLab(token: string): Promise<CheckResult> {
+  if (!parseWebUrl(getGitLabBaseUrl())) {
+    return { status: "error", message: `GitLab Host "${getGitLabBaseUrl()}" is not an http(s) URL.` };
+  }
+  const fix = { title: "Create GitLab Token", url: `${getGitLabBaseUrl()}${GITLAB_TOKEN_PATH}` };
+  if (!token) {
+    return { status: "warning", message: "Not set: pipeline status and merge requests are disabled.", fix };
+  }
+  try {
+    const info = await fetchTokenInfo(token);
+    if (!info.active) return { status: "error", message: `Token "${info.name}" is revoked or expired.`, fix };
+    const scopes = info.scopes.join(", ");
+    const daysLeft = info.expires_at ? Math.floor((Date.parse(info.expires_at) - Date.now()) / 86_400_000) : null;
+    if (daysLeft !== null && daysLeft < TOKEN_EXPIRY_WARNING_DAYS) {
+      return { status: "warning", message: `Token "${info.name}" expires on ${info.expires_at}.`, fix };
+    }
+    if (info.scopes.includes("api")) return { status: "ok", message: `Token "${info.name}" (${scopes})` };
+    if (info.scopes.includes("read_api")) {
+      return {
+        status: "warning",
+        message: `Only ${scopes}: pipeline status works, but retrying jobs and merge requests need the api scope.`,
+        fix,
+      };
+    }
+    return { status: "error", message: `Scopes ${scopes || "(none)"}: needs api (or at least read_api).`, fix };
+  } catch (e) {
+    return { status: "error", message: e instanceof Error ? e.message : String(e), fix };
+  }
+}
+
+function checkZoomUrl(input: string): CheckResult {
+  if (!input) return { status: "error", message: "Not set." };
+  const url = parseWebUrl(input);
+  if (!url) return { status: "error", message: `"${input}" is not an http(s) URL.` };
+  if (!/(^|\.)zoom\.us$/.test(url.hostname)) {
+    return { status: "warning", message: `${url.hostname} is not a Zoom host; the Daily command opens it anyway.` };
+  }
+  return { status: "ok", message: input };
+}
+
+function checkBoardUrl(input: string): CheckResult {
+  const url = parseWebUrl(input);
+  if (!url) return { status: "error", message: `"${input}" is not an http(s) URL.` };
+  const boardId = parseBoardId(input);
+  if (boardId === null)
+    return { status: "error", message: "No board ID found (expected …/boards/<id> or ?rapidView=<id>)." };
+  return { status: "ok", message: `Board ${boardId} on ${url.hostname}` };
+}
+
+// Every check is independent and reports its own failure, so one broken setting never hides the others.
+export async function runSetupChecks(prefs: SetupPreferences): Promise<SetupCheck[]> {
+  const workerDir = String(prefs.workerDir || "").trim();
+  const checks: [string, string, () => Promise<CheckResult> | CheckResult][] = [
+    ["workerDir", "Worker Directory", () => checkWorkerDir(workerDir)],
+    ["gitUsername", "Git Username", () => checkGitUsername(String(prefs.gitUsername || "").trim(), workerDir)],
+    ["jira", "Jira Host and Credentials", () => checkJira(prefs)],
+    ["gitlab", "GitLab Host and Token", () => checkGitLab(String(prefs.gitlabToken || "").trim())],
+    ["dailyZoomUrl", "Daily Zoom URL", () => checkZoomUrl(String(prefs.dailyZoomUrl || "").trim())],
+    [
+      "jiraBoardUrl",
+      "Jira Board URL",
+      () => checkBoardUrl(String(prefs.jiraBoardUrl || "").trim() || DEFAULT_JIRA_BOARD_URL),
+    ],
+  ];
+  return Promise.all(
+    checks.map(async ([id, title, run]) => {
+      try {
+        return { id, title, ...(await run()) };
+      } catch (e) {
+        return { id, title, status: "error" as const, message: e instanceof Error ? e.message : String(e) };
+      }
+    }),
+  );
+}
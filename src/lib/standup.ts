@@ -0,0 +1,129 @@
+import { parseBranchName } from "./branch-name";
+import { CommitInfo, getConfigValue, listCommitsSince } from "./git";
+import { GitLabContext, GitLabMergeRequest, fetchMergeRequestsUpdatedSince } from "./gitlab";
+import { JiraCredentials, JiraIssue, extractIssueKey, fetchIssuesByKeys, isIssueDone } from "./jira";
+
+export type StandupOptions = {
+  workerDir: string;
+  gitUsername: string;
+  jira: JiraCredentials | null;
+  // Without a token, merge requests are left out.
+  gitlab: GitLabContext | null;
+  now?: Date;
+};
+
+export type StandupData = {
+  since: Date;
+  commits: CommitInfo[];
+  issues: JiraIssue[];
+  mergeRequests: GitLabMergeRequest[];
+  // Sources that failed; the notes are still built from the others.
+  warnings: string[];
+};
+
+// Midnight of the previous weekday: Friday when run on a Monday (or over the weekend).
+export function previousWorkingDay(now: Date = new Date()): Date {
+  const day = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  do {
+    day.setDate(day.getDate() - 1);
+  } while (day.getDay() === 0 || day.getDay() === 6);
+  return day;
+}
+
+// Only a leading key counts in free text ("SYNTH-1: …", "[SYNTH-1] …"); "utf-8" in the middle of a subject is no issue.
+function leadingIssueKey(text: string): string | null {
+  const match = String(text || "").match(/^\[?([A-Z][A-Z0-9]+-\d+)\b/);
+  return match ? extractIssueKey(match[1]) : null;
+}
+
+function commitIssueKey(commit: CommitInfo): string | null {
+  return parseBranchName(commit.branch).issueKey ?? leadingIssueKey(commit.subject);
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+export async function loadStandupData(options: StandupOptions): Promise<StandupData> {
+  const { workerDir, gitUsername, jira, gitlab } = options;
+  const since = previousWorkingDay(options.now);
+  const warnings: string[] = [];
+
+  const author = (await getConfigValue(workerDir, "user.email")) ?? gitUsername;
+  const commits = await listCommitsSince(workerDir, since, author);
+
+  const mergeRequests: GitLabMergeRequest[] = [];
+  if (gitlab?.token && gitUsername) {
+    try {
+      mergeRequests.push(...(await fetchMergeRequestsUpdatedSince(gitlab, gitUsername, since)));
+    } catch (e) {
+      warnings.push(`GitLab: ${errorMessage(e)}`);
+    }
+  }
+
+  const keys = [
+    ...commits.map(commitIssueKey),
+    ...mergeRequests.map((mr) => parseBranchName(mr.source_branch).issueKey ?? leadingIssueKey(mr.title)),
+  ].filter((k): k is string => !!k);
+  const issues: JiraIssue[] = [];
+  if (jira && keys.length) {
+    try {
+      issues.push(...(await fetchIssuesByKeys(jira, keys)));
+    } catch (e) {
+      warnings.push(`Jira: ${errorMessage(e)}`);
+    }
+  }
+
+  return { since, commits, issues, mergeRequests, warnings };
+}
+
+function issueLine(key: string, issue: JiraIssue | undefined): string {
+  if (!issue) return `- ${key}`;
+  const status = issue.fields.status?.name;
+  return `- ${key} ${issue.fields.summary ?? ""}${status ? ` (${status})` : ""}`.trimEnd();
+}
+
+export function buildStandupMarkdown(data: StandupData): string {
+  const issuesByKey = new Map(data.issues.map((issue) => [issue.key, issue]));
+  const sinceTime = data.since.getTime();
+
+  // Commits grouped by Jira issue, or by branch when the branch has no issue key.
+  const groups = new Map<string, { issueKey: string | null; subjects: string[] }>();
+  for (const commit of [...data.commits].reverse()) {
+    const issueKey = commitIssueKey(commit);
+    const groupKey = issueKey ?? commit.branch;
+    const group = groups.get(groupKey) ?? { issueKey, subjects: [] };
+    if (!group.subjects.includes(commit.subject)) group.subjects.push(commit.subject);
+    groups.set(groupKey, group);
+  }
+
+  const yesterday: string[] = [];
+  for (const [groupKey, group] of groups) {
+    yesterday.push(group.issueKey ? issueLine(group.issueKey, issuesByKey.get(group.issueKey)) : `- ${groupKey}`);
+    yesterday.push(...group.subjects.map((s) => `  - ${s}`));
+  }
+  for (const mr of data.mergeRequests) {
+    if (mr.merged_at && new Date(mr.merged_at).getTime() >= sinceTime) {
+      yesterday.push(`- Merged [!${mr.iid} ${mr.title}](${mr.web_url})`);
+    } else if (new Date(mr.created_at).getTime() >= sinceTime) {
+      yesterday.push(`- Opened [!${mr.iid} ${mr.title}](${mr.web_url})`);
+    }
+  }
+
+  const today = data.issues.filter((issue) => !isIssueDone(issue)).map((issue) => issueLine(issue.key, issue));
+  const blockers = data.issues
+    .filter((issue) => /block/i.test(issue.fields.status?.name ?? ""))
+    .map((issue) => issueLine(issue.key, issue));
+
+  return [
+    "## Yesterday",
+    ...(yesterday.length ? yesterday : ["- "]),
+    "",
+    "## Today",
+    ...(today.length ? today : ["- "]),
+    "",
+    "## Blockers",
+    ...(blockers.length ? blockers : ["- None"]),
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,92 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import {
+  GitOperation,
+  countAheadBehind,
+  getOperationInProgress,
+  getRepoRoot,
+  git,
+  gitErrorMessage,
+  listConflictedFiles,
+} from "./git";
+
+export type SyncStrategy = "rebase" | "merge";
+
+export type SyncResult =
+  | { status: "up-to-date" }
+  | { status: "updated"; behind: number }
+  | { status: "conflicts"; operation: GitOperation; conflicts: string[] };
+
+export async function fetchBase(workerDir: string, baseBranch: string): Promise<string> {
+  try {
+    await git(workerDir, ["fetch", "origin", baseBranch]);
+  } catch (e) {
+    throw new Error(`git fetch of ${baseBranch} failed: ${gitErrorMessage(e)}`);
+  }
+  return `origin/${baseBranch}`;
+}
+
+export async function syncWithBase(workerDir: string, baseBranch: string, strategy: SyncStrategy): Promise<SyncResult> {
+  const operation = await getOperationInProgress(workerDir);
+  if (operation) throw new Error(`A ${operation} is already in progress. Finish or abort it first.`);
+
+  const baseRef = await fetchBase(workerDir, baseBranch);
+  const { behind } = await countAheadBehind(workerDir, "HEAD", baseRef);
+  if (!behind) return { status: "up-to-date" };
+
+  const args =
+    strategy === "rebase" ? ["rebase", "--autostash", baseRef] : ["merge", "--autostash", "--no-edit", baseRef];
+  try {
+    await git(workerDir, args);
+  } catch (e) {
+    const conflicts = await listConflictedFiles(workerDir);
+    const pending = await getOperationInProgress(workerDir);
+    if (!pending || !conflicts.length) throw new Error(`git ${strategy} failed: ${gitErrorMessage(e)}`);
+    return { status: "conflicts", operation: pending, conflicts };
+  }
+  return { status: "updated", behind };
+}
+
+async function filesWithConflictMarkers(workerDir: string, files: string[]): Promise<string[]> {
+  const root = await getRepoRoot(workerDir);
+  const marked: string[] = [];
+  for (const file of files) {
+    try {
+      const content = await readFile(path.join(root, file), "utf8");
+      if (/^<{7} /m.test(content) && /^>{7} /m.test(content)) marked.push(file);
+    } catch {
+      // Deleted on one side: nothing to scan.
+    }
+  }
+  return marked;
+}
+
+// Stages the conflicted files and continues any in-progress operation (a cherry-pick or revert started outside
+// the extension too); returns the conflicts of the next step, if any.
+export async function continueSync(workerDir: string): Promise<SyncResult> {
+  const operation = await getOperationInProgress(workerDir);
+  if (!operation) throw new Error("No rebase, merge, cherry-pick or revert is in progress.");
+
+  const conflicts = await listConflictedFiles(workerDir);
+  const unresolved = await filesWithConflictMarkers(workerDir, conflicts);
+  if (unresolved.length) throw new Error(`Still has conflict markers: ${unresolved.join(", ")}`);
+  if (conflicts.length) await git(workerDir, ["add", "--", ...conflicts]);
+
+  try {
+    // No editor: keep the original commit messages.
+    if (operation === "merge") await git(workerDir, ["commit", "--no-edit"]);
+    else await git(workerDir, ["-c", "core.editor=true", operation, "--continue"]);
+  } catch (e) {
+    const next = await listConflictedFiles(workerDir);
+    const pending = await getOperationInProgress(workerDir);
+    if (!pending || !next.length) throw new Error(`git ${operation} --continue failed: ${gitErrorMessage(e)}`);
+    return { status: "conflicts", operation: pending, conflicts: next };
+  }
+  return { status: "updated", behind: 0 };
+}
+
+export async function abortSync(workerDir: string): Promise<void> {
+  const operation = await getOperationInProgress(workerDir);
+  if (!operation) throw new Error("No rebase, merge, cherry-pick or revert is in progress.");
+  await git(workerDir, [operation, "--abort"]);
+}
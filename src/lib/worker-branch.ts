@@ -0,0 +1,269 @@
+import { getPreferenceValues } from "@raycast/api";
+import { existsSync } from "fs";
+import path from "path";
+import { BranchNamingOptions, getBranchNamingOptions, renderBranchName } from "./branch-name";
+import { autoStashMessage, findAutoStash } from "./branch-switch";
+import {
+  DirtyFile,
+  GitOperation,
+  getCurrentRef,
+  getDirtyFiles,
+  getOperationInProgress,
+  getRepoRoot,
+  git,
+  gitErrorMessage,
+  isValidBranchName,
+  localBranchExists,
+  getConfigValue,
+  remoteBranchExists,
+  setConfigValue,
+  stashPop,
+  stashPush,
+} from "./git";
+
+// A branch name to create from (any branch of origin), or "current" to stay on the checked out branch.
+export type BaseBranch = string;
+
+export const CURRENT_BASE_BRANCH = "current";
+
+// Launch context of Create Worker Branch, set by deeplinks (`?context=`), bookmarklets and Quick Create's fallback.
+export type CreateWorkerBranchContext = {
+  // A Jira link, an issue key, or only its number.
+  jira?: string;
+  description?: string;
+};
+
+// What to do with uncommitted changes before touching the checkout.
+export type DirtyStrategy = "stash" | "carry";
+
+export type CreateBranchOptions = {
+  jiraId: string;
+  description: string;
+  baseBranch: BaseBranch;
+  workerDir: string;
+  gitUsername: string;
+  // Jira issue type, used by the {type} branch name token.
+  issueType?: string;
+  dirtyStrategy?: DirtyStrategy;
+  switchIfExists?: boolean;
+  // Create the branch in a sibling `git worktree` instead of switching the checkout in workerDir.
+  worktree?: boolean;
+  // Fetch the base and branch from origin/<base> instead of checking out and pulling the local base.
+  // Defaults to the "Branch from Remote Base" preference.
+  fromRemoteBase?: boolean;
+};
+
+type WorkerBranchPreferences = {
+  branchFromRemoteBase?: boolean;
+};
+
+export type CreateBranchResult = {
+  branchName: string;
+  switched: boolean;
+  stashed: boolean;
+  // Set in worktree mode: the workerDir equivalent inside the new worktree.
+  worktreePath?: string;
+};
+
+export type PreflightReport = {
+  branchName: string;
+  dirtyFiles: DirtyFile[];
+  existsLocally: boolean;
+  existsOnRemote: boolean;
+};
+
+// Thrown by createBranch() when the pre-flight found something the user has to decide on.
+export class BranchPreflightError extends Error {
+  constructor(readonly report: PreflightReport) {
+    super(
+      report.existsLocally || report.existsOnRemote
+        ? `Branch ${report.branchName} already exists.`
+        : "The worker directory has uncommitted changes.",
+    );
+    this.name = "BranchPreflightError";
+  }
+}
+
+export function buildBranchName(
+  options: Pick<CreateBranchOptions, "jiraId" | "description" | "gitUsername" | "issueType">,
+  naming: BranchNamingOptions = getBranchNamingOptions(),
+): string {
+  return renderBranchName(options, naming);
+}
+
+// Stored in the repository's git config, so `git branch -D` forgets it together with the branch.
+function branchBaseConfigKey(branchName: string): string {
+  return `branch.${branchName}.workerHelperBase`;
+}
+
+export async function getBranchBase(workerDir: string, branchName: string): Promise<string | null> {
+  return getConfigValue(workerDir, branchBaseConfigKey(branchName));
+}
+
+export async function setBranchBase(workerDir: string, branchName: string, baseBranch: string): Promise<void> {
+  await setConfigValue(workerDir, branchBaseConfigKey(branchName), baseBranch);
+}
+
+// "current" means "whatever was checked out"; remember that branch, or nothing for a detached HEAD.
+async function resolveBaseBranch(workerDir: string, baseBranch: BaseBranch): Promise<string | null> {
+  if (baseBranch !== CURRENT_BASE_BRANCH) return baseBranch;
+  const currentRef = await getCurrentRef(workerDir);
+  return (await localBranchExists(workerDir, currentRef)) ? currentRef : null;
+}
+
+function operationMessage(operation: GitOperation): string {
+  return `A ${operation} is in progress in the worker directory. Finish or abort it before creating a branch.`;
+}
+
+export async function preflightCreateBranch(workerDir: string, branchName: string): Promise<PreflightReport> {
+  const operation = await getOperationInProgress(workerDir);
+  if (operation) throw new Error(operationMessage(operation));
+
+  if (!(await isValidBranchName(workerDir, branchName))) {
+    throw new Error(`"${branchName}" is not a valid git branch name.`);
+  }
+
+  const [dirtyFiles, existsLocally, existsOnRemote] = await Promise.all([
+    getDirtyFiles(workerDir),
+    localBranchExists(workerDir, branchName),
+    remoteBranchExists(workerDir, branchName),
+  ]);
+  return { branchName, dirtyFiles, existsLocally, existsOnRemote };
+}
+
+// Worktrees live next to the repository: `<repo>-worktrees/<branch with / replaced by ->`.
+export function worktreePathFor(repoRoot: string, branchName: string): string {
+  return path.join(path.dirname(repoRoot), `${path.basename(repoRoot)}-worktrees`, branchName.replace(/\//g, "-"));
+}
+
+async function startPointFor(workerDir: string, baseBranch: BaseBranch): Promise<string> {
+  if (baseBranch === CURRENT_BASE_BRANCH) return "HEAD";
+  try {
+    await git(workerDir, ["fetch", "origin", baseBranch]);
+  } catch (e) {
+    throw new Error(`git fetch of ${baseBranch} failed: ${gitErrorMessage(e)}`);
+  }
+  return `origin/${baseBranch}`;
+}
+
+async function createWorktreeBranch(options: CreateBranchOptions, branchName: string): Promise<CreateBranchResult> {
+  const { baseBranch, workerDir, switchIfExists } = options;
+
+  if (!(await isValidBranchName(workerDir, branchName))) {
+    throw new Error(`"${branchName}" is not a valid git branch name.`);
+  }
+
+  const repoRoot = await getRepoRoot(workerDir);
+  const worktreeRoot = worktreePathFor(repoRoot, branchName);
+  if (existsSync(worktreeRoot)) throw new Error(`${worktreeRoot} already exists.`);
+
+  // The current checkout is never touched, so only an existing branch needs a decision.
+  const [existsLocally, existsOnRemote] = await Promise.all([
+    localBranchExists(workerDir, branchName),
+    remoteBranchExists(workerDir, branchName),
+  ]);
+  const exists = existsLocally || existsOnRemote;
+  if (exists && !switchIfExists) {
+    throw new BranchPreflightError({ branchName, dirtyFiles: [], existsLocally, existsOnRemote });
+  }
+
+  if (existsLocally) {
+    await git(workerDir, ["worktree", "add", worktreeRoot, branchName]);
+  } else if (existsOnRemote) {
+    await git(workerDir, ["fetch", "origin", branchName]);
+    await git(workerDir, ["worktree", "add", "--track", "-b", branchName, worktreeRoot, `origin/${branchName}`]);
+  } else {
+    const resolvedBase = await resolveBaseBranch(workerDir, baseBranch);
+    const startPoint = await startPointFor(workerDir, baseBranch);
+    await git(workerDir, ["worktree", "add", "--no-track", "-b", branchName, worktreeRoot, startPoint]);
+    if (resolvedBase) await setBranchBase(workerDir, branchName, resolvedBase);
+  }
+
+  return {
+    branchName,
+    switched: exists,
+    stashed: false,
+    worktreePath: path.join(worktreeRoot, path.relative(repoRoot, workerDir)),
+  };
+}
+
+export async function createBranch(options: CreateBranchOptions): Promise<CreateBranchResult> {
+  const { workerDir, dirtyStrategy, switchIfExists } = options;
+  const branchName = buildBranchName(options);
+  if (options.worktree) return createWorktreeBranch(options, branchName);
+
+  const report = await preflightCreateBranch(workerDir, branchName);
+
+  const exists = report.existsLocally || report.existsOnRemote;
+  if ((report.dirtyFiles.length && !dirtyStrategy) || (exists && !switchIfExists)) {
+    throw new BranchPreflightError(report);
+  }
+
+  const previousRef = await getCurrentRef(workerDir);
+  const stashed = report.dirtyFiles.length > 0 && dirtyStrategy === "stash";
+  // Same stash as Switch Branch uses, so switching back to the previous branch restores the changes.
+  if (stashed) await stashPush(workerDir, autoStashMessage(previousRef));
+
+  try {
+    await checkoutWorkerBranch(options, branchName, report);
+  } catch (e) {
+    // A failed pull or checkout must not leave the changes in a stash the user never hears about.
+    if (stashed) throw new Error(`${gitErrorMessage(e)}\n${await restoreAutoStash(workerDir, previousRef)}`);
+    const currentRef = await getCurrentRef(workerDir).catch(() => previousRef);
+    throw new Error(`${gitErrorMessage(e)}${currentRef !== previousRef ? `\nYou are now on ${currentRef}.` : ""}`);
+  }
+  return { branchName, switched: exists, stashed };
+}
+
+// Puts the auto-stashed changes back on the branch they came from; the message says where they ended up.
+async function restoreAutoStash(workerDir: string, previousRef: string): Promise<string> {
+  const stashMessage = autoStashMessage(previousRef);
+  try {
+    if ((await getCurrentRef(workerDir)) !== previousRef) await git(workerDir, ["checkout", previousRef]);
+    const own = await findAutoStash(workerDir, previousRef);
+    if (own) await stashPop(workerDir, own.ref);
+    return `Switched back to ${previousRef} and restored your uncommitted changes.`;
+  } catch (e) {
+    return `Your uncommitted changes are kept in the stash "${stashMessage}": ${gitErrorMessage(e)}`;
+  }
+}
+
+// Everything createBranch does once uncommitted changes are out of the way.
+async function checkoutWorkerBranch(
+  options: CreateBranchOptions,
+  branchName: string,
+  report: PreflightReport,
+): Promise<void> {
+  const { baseBranch, workerDir } = options;
+  if (report.existsLocally) {
+    await git(workerDir, ["checkout", branchName]);
+    return;
+  }
+  if (report.existsOnRemote) {
+    await git(workerDir, ["fetch", "origin", branchName]);
+    await git(workerDir, ["checkout", "--track", `origin/${branchName}`]);
+    return;
+  }
+
+  const resolvedBase = await resolveBaseBranch(workerDir, baseBranch);
+  const fromRemoteBase =
+    options.fromRemoteBase ?? !!getPreferenceValues<WorkerBranchPreferences>().branchFromRemoteBase;
+  if (baseBranch !== CURRENT_BASE_BRANCH && fromRemoteBase) {
+    // The local base branch is never checked out, so it may be stale, diverged or missing.
+    await git(workerDir, ["checkout", "--no-track", "-b", branchName, await startPointFor(workerDir, baseBranch)]);
+    if (resolvedBase) await setBranchBase(workerDir, branchName, resolvedBase);
+    return;
+  }
+
+  if (baseBranch !== CURRENT_BASE_BRANCH) {
+    await git(workerDir, ["checkout", baseBranch]);
+    try {
+      await git(workerDir, ["pull"]);
+    } catch (e) {
+      throw new Error(`git pull on ${baseBranch} failed: ${gitErrorMessage(e)}`);
+    }
+  }
+
+  await git(workerDir, ["checkout", "-b", branchName]);
+  if (resolvedBase) await setBranchBase(workerDir, branchName, resolvedBase);
+}
@@ -0,0 +1,188 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Color,
+  Form,
+  Icon,
+  List,
+  Toast,
+  confirmAlert,
+  openExtensionPreferences,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { randomUUID } from "crypto";
+import { useMeetings } from "./hooks/use-meetings";
+import {
+  DAILY_MEETING_ID,
+  Meeting,
+  WEEKDAYS,
+  deleteMeeting,
+  formatSchedule,
+  parseStartTime,
+  saveMeeting,
+  upcomingMeetings,
+} from "./lib/meetings";
+
+type MeetingFormValues = {
+  name: string;
+  url: string;
+  weekdays: string[];
+  startTime: string;
+  durationMinutes: string;
+};
+
+function MeetingForm({ meeting, onSaved }: { meeting?: Meeting; onSaved: () => Promise<void> }) {
+  const { pop } = useNavigation();
+  const isDaily = meeting?.id === DAILY_MEETING_ID;
+
+  async function handleSubmit(values: MeetingFormValues) {
+    const name = String(values.name || "").trim();
+    const url = String(values.url || "").trim();
+    const time = parseStartTime(values.startTime);
+    const durationMinutes = parseInt(String(values.durationMinutes || ""), 10);
+    if (!name || (!isDaily && !url)) {
+      await showToast({ style: Toast.Style.Failure, title: "Name and link are required" });
+      return;
+    }
+    if (!time) {
+      await showToast({ style: Toast.Style.Failure, title: "Start time must look like 09:30" });
+      return;
+    }
+    if (!(durationMinutes > 0)) {
+      await showToast({ style: Toast.Style.Failure, title: "Duration must be a number of minutes" });
+      return;
+    }
+
+    try {
+      await saveMeeting({
+        id: meeting?.id ?? randomUUID(),
+        name,
+        url,
+        weekdays: values.weekdays.map(Number),
+        startTime: `${String(time.hours).padStart(2, "0")}:${String(time.minutes).padStart(2, "0")}`,
+        durationMinutes,
+      });
+      await onSaved();
+      pop();
+    } catch (e) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Couldn't save meeting",
+        message: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={meeting ? `Edit ${meeting.name}` : "Add Meeting"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Meeting" icon={Icon.Check} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField id="name" title="Name" defaultValue={meeting?.name} placeholder="Refinement" />
+      {isDaily ? (
+        <Form.Description title="Link" text="Comes from the Daily Zoom URL preference." />
+      ) : (
+        <Form.TextField id="url" title="Link" defaultValue={meeting?.url} placeholder="https://zoom.us/j/…" />
+      )}
+      <Form.TagPicker id="weekdays" title="Weekdays" defaultValue={(meeting?.weekdays ?? [1, 2, 3, 4, 5]).map(String)}>
+        {WEEKDAYS.map((d) => (
+          <Form.TagPicker.Item key={d.value} value={String(d.value)} title={d.title} />
+        ))}
+      </Form.TagPicker>
+      <Form.TextField
+        id="startTime"
+        title="Start Time"
+        defaultValue={meeting?.startTime ?? "10:00"}
+        placeholder="10:00"
+      />
+      <Form.TextField
+        id="durationMinutes"
+        title="Duration (Minutes)"
+        defaultValue={String(meeting?.durationMinutes ?? 30)}
+      />
+    </Form>
+  );
+}
+
+export default function Command() {
+  const { meetings, isLoading, reload } = useMeetings();
+  const upcoming = upcomingMeetings(meetings);
+  const startById = new Map(upcoming.map((u) => [u.meeting.id, u]));
+
+  async function handleDelete(meeting: Meeting) {
+    const confirmed = await confirmAlert({
+      title: `Remove ${meeting.name}?`,
+      primaryAction: { title: "Remove", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    await deleteMeeting(meeting.id);
+    await reload();
+  }
+
+  const addAction = (
+    <Action.Push
+      title="Add Meeting"
+      icon={Icon.Plus}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      target={<MeetingForm onSaved={reload} />}
+    />
+  );
+
+  return (
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder="Search meetings…"
+      actions={<ActionPanel>{addAction}</ActionPanel>}
+    >
+      {meetings.map((meeting) => {
+        const isDaily = meeting.id === DAILY_MEETING_ID;
+        const next = startById.get(meeting.id);
+        return (
+          <List.Item
+            key={meeting.id}
+            title={meeting.name}
+            subtitle={formatSchedule(meeting)}
+            icon={isDaily ? Icon.Star : Icon.Calendar}
+            accessories={[
+              next?.inProgress
+                ? { tag: { value: "in progress", color: Color.Green } }
+                : next
+                  ? { date: next.start, tooltip: "Next occurrence" }
+                  : { text: "not scheduled" },
+            ]}
+            actions={
+              <ActionPanel>
+                {meeting.url ? <Action.OpenInBrowser title="Join Meeting" url={meeting.url} /> : null}
+                <Action.Push
+                  title="Edit Meeting"
+                  icon={Icon.Pencil}
+                  shortcut={{ modifiers: ["cmd"], key: "e" }}
+                  target={<MeetingForm meeting={meeting} onSaved={reload} />}
+                />
+                {addAction}
+                {meeting.url ? <Action.CopyToClipboard title="Copy Link" content={meeting.url} /> : null}
+                {isDaily ? (
+                  <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+                ) : (
+                  <Action
+                    title="Remove Meeting"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={() => handleDelete(meeting)}
+                  />
+                )}
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
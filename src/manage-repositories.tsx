@@ -0,0 +1,199 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Form,
+  Icon,
+  List,
+  Toast,
+  confirmAlert,
+  openExtensionPreferences,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { randomUUID } from "crypto";
+import { useState } from "react";
+import { useRepoProfiles } from "./hooks/use-repo-profiles";
+import {
+  DEFAULT_BASE_BRANCHES,
+  DEFAULT_PIPELINE_BRANCHES,
+  DEFAULT_REPO_ID,
+  RepoProfile,
+  deleteRepoProfile,
+  detectGitLabProject,
+  parseBranchList,
+  saveRepoProfile,
+} from "./lib/repos";
+import { normalizeProjectKey } from "./lib/jira";
+
+type RepoFormValues = {
+  name: string;
+  directory: string[];
+  gitlabProject: string;
+  baseBranches: string;
+  pipelineBranches: string;
+  jiraProjectKey: string;
+};
+
+function RepoForm({ profile, onSaved }: { profile?: RepoProfile; onSaved: () => Promise<void> }) {
+  const { pop } = useNavigation();
+  const [gitlabProject, setGitlabProject] = useState<string>(profile?.gitlabProject ?? "");
+  const [detectedProject, setDetectedProject] = useState<string>("");
+
+  async function handleDirectoryChange(paths: string[]) {
+    const directory = paths[0];
+    if (!directory) return;
+    const detected = await detectGitLabProject(directory);
+    setDetectedProject(detected ?? "");
+    // Pre-fill, but never overwrite what the user typed.
+    if (detected && !gitlabProject) setGitlabProject(detected);
+  }
+
+  async function handleSubmit(values: RepoFormValues) {
+    const name = String(values.name || "").trim();
+    const directory = values.directory[0];
+    if (!name || !directory) {
+      await showToast({ style: Toast.Style.Failure, title: "Name and directory are required" });
+      return;
+    }
+
+    const baseBranches = parseBranchList(values.baseBranches);
+    try {
+      await saveRepoProfile({
+        id: profile?.id ?? randomUUID(),
+        name,
+        directory,
+        gitlabProject: String(values.gitlabProject || "")
+          .trim()
+          .replace(/^\/+|\/+$/g, ""),
+        baseBranches: baseBranches.length ? baseBranches : DEFAULT_BASE_BRANCHES,
+        pipelineBranches: parseBranchList(values.pipelineBranches),
+        jiraProjectKey: normalizeProjectKey(values.jiraProjectKey),
+      });
+      await onSaved();
+      pop();
+    } catch (e) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Couldn't save repository",
+        message: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={profile ? `Edit ${profile.name}` : "Add Repository"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Repository" icon={Icon.Check} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField id="name" title="Name" defaultValue={profile?.name} placeholder="synthetics-private-locations" />
+      <Form.FilePicker
+        id="directory"
+        title="Directory"
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+        defaultValue={profile ? [profile.directory] : undefined}
+        onChange={(paths) => void handleDirectoryChange(paths)}
+      />
+      <Form.TextField
+        id="gitlabProject"
+        title="GitLab Project"
+        value={gitlabProject}
+        onChange={setGitlabProject}
+        placeholder={detectedProject || "DataDog/my-project"}
+        info="Leave empty to detect it from `git remote get-url origin`."
+      />
+      <Form.TextField
+        id="baseBranches"
+        title="Base Branches"
+        defaultValue={(profile?.baseBranches ?? DEFAULT_BASE_BRANCHES).join(", ")}
+        info="Offered as base branches in Create Worker Branch. The first one is the default."
+      />
+      <Form.TextField
+        id="pipelineBranches"
+        title="Pinned Pipeline Branches"
+        defaultValue={(profile?.pipelineBranches ?? DEFAULT_PIPELINE_BRANCHES).join(", ")}
+        info="Shown in the Quick Open section of Open GitLab Pipelines."
+      />
+      <Form.TextField
+        id="jiraProjectKey"
+        title="Jira Project Key"
+        defaultValue={profile?.jiraProjectKey}
+        placeholder="SYNTH"
+      />
+    </Form>
+  );
+}
+
+export default function Command() {
+  const { profiles, isLoading, reload } = useRepoProfiles();
+
+  async function handleDelete(profile: RepoProfile) {
+    const confirmed = await confirmAlert({
+      title: `Remove ${profile.name}?`,
+      message: "Only the profile is removed; the repository on disk is untouched.",
+      primaryAction: { title: "Remove", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    await deleteRepoProfile(profile.id);
+    await reload();
+  }
+
+  const addAction = (
+    <Action.Push
+      title="Add Repository"
+      icon={Icon.Plus}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      target={<RepoForm onSaved={reload} />}
+    />
+  );
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search repositories…">
+      {profiles.map((profile) => {
+        const isDefault = profile.id === DEFAULT_REPO_ID;
+        return (
+          <List.Item
+            key={profile.id}
+            title={profile.name}
+            subtitle={profile.directory || "no directory"}
+            icon={isDefault ? Icon.Star : Icon.Folder}
+            accessories={[
+              { text: profile.gitlabProject || "auto-detect", tooltip: "GitLab project" },
+              { tag: profile.jiraProjectKey, tooltip: "Jira project" },
+            ]}
+            actions={
+              <ActionPanel>
+                {isDefault ? (
+                  <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+                ) : (
+                  <Action.Push
+                    title="Edit Repository"
+                    icon={Icon.Pencil}
+                    target={<RepoForm profile={profile} onSaved={reload} />}
+                  />
+                )}
+                {addAction}
+                {profile.directory ? <Action.ShowInFinder path={profile.directory} /> : null}
+                {!isDefault ? (
+                  <Action
+                    title="Remove Repository"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={() => handleDelete(profile)}
+                  />
+                ) : null}
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
@@ -0,0 +1,168 @@
+import {
+  Action,
+  ActionPanel,
+  Icon,
+  List,
+  Toast,
+  getPreferenceValues,
+  openExtensionPreferences,
+  showToast,
+} from "@raycast/api";
+import { useEffect, useMemo, useState } from "react";
+import { useCreateIssueBranch } from "./hooks/use-create-issue-branch";
+import { parseBranchName } from "./lib/branch-name";
+import { loadBranches } from "./lib/git";
+import {
+  JiraIssue,
+  activeSprintName,
+  getJiraCredentials,
+  issueBrowseUrl,
+  jiraCredentialsPreferenceNames,
+  normalizeProjectKey,
+  searchIssues,
+} from "./lib/jira";
+import { issueStatusColor } from "./lib/jira-status";
+import { defaultRepoProfile } from "./lib/repos";
+import { CURRENT_BASE_BRANCH } from "./lib/worker-branch";
+
+type Preferences = {
+  workerDir: string;
+  gitUsername: string;
+  jiraEmail?: string;
+  jiraApiToken?: string;
+  jiraDefaultProjectKey?: string;
+  jiraIssuesJql?: string;
+};
+
+function defaultJql(projectKey: string): string {
+  return `assignee = currentUser() AND resolution = Unresolved AND project = ${projectKey} ORDER BY updated DESC`;
+}
+
+function issueAccessories(issue: JiraIssue, localBranches: string[]): List.Item.Accessory[] {
+  const accessories: List.Item.Accessory[] = [];
+  if (localBranches.length) {
+    accessories.push({ icon: Icon.Code, tooltip: `Local branch: ${localBranches.join(", ")}` });
+  }
+  const sprint = activeSprintName(issue);
+  if (sprint) accessories.push({ text: sprint, tooltip: "Sprint" });
+  if (issue.fields.priority) {
+    accessories.push({
+      icon: issue.fields.priority.iconUrl ?? Icon.Exclamationmark,
+      tooltip: `Priority: ${issue.fields.priority.name}`,
+    });
+  }
+  if (issue.fields.status) {
+    accessories.push({ tag: { value: issue.fields.status.name, color: issueStatusColor(issue) } });
+  }
+  return accessories;
+}
+
+export default function Command() {
+  const prefs = getPreferenceValues<Preferences>();
+  const workerDir = String(prefs.workerDir || "").trim();
+  const repo = useMemo(() => defaultRepoProfile(), []);
+  const gitUsername = String(prefs.gitUsername || "")
+    .trim()
+    .replace(/\s+/g, "");
+  const defaultProjectKey = useMemo(
+    () => normalizeProjectKey(prefs.jiraDefaultProjectKey),
+    [prefs.jiraDefaultProjectKey],
+  );
+  const jql = String(prefs.jiraIssuesJql || "").trim() || defaultJql(defaultProjectKey);
+
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [issues, setIssues] = useState<JiraIssue[]>([]);
+  const [branchesByKey, setBranchesByKey] = useState<Record<string, string[]>>({});
+
+  async function reloadBranches() {
+    if (!workerDir) return;
+    try {
+      const { branches } = await loadBranches(workerDir);
+      const byKey: Record<string, string[]> = {};
+      for (const { branch } of branches) {
+        const { issueKey } = parseBranchName(branch);
+        if (issueKey) (byKey[issueKey] ??= []).push(branch);
+      }
+      setBranchesByKey(byKey);
+    } catch {
+      // Branch matching is a hint only; the issue list is still useful without it.
+      setBranchesByKey({});
+    }
+  }
+
+  async function reload() {
+    setIsLoading(true);
+    try {
+      const creds = getJiraCredentials(prefs);
+      if (!creds) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Missing Preferences",
+          message: `Set ${jiraCredentialsPreferenceNames()} in extension preferences.`,
+        });
+        return;
+      }
+      const [found] = await Promise.all([searchIssues(creds, jql), reloadBranches()]);
+      setIssues(found);
+    } catch (e) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Couldn't load Jira issues",
+        message: e instanceof Error ? e.message : String(e),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void reload();
+  }, [jql]);
+
+  const handleCreateBranch = useCreateIssueBranch({ workerDir, gitUsername, onCreated: reloadBranches });
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search issues…" navigationTitle="My Jira Issues">
+      <List.Section title="Issues" subtitle={issues.length ? `${issues.length}` : ""}>
+        {issues.map((issue) => {
+          const localBranches = branchesByKey[issue.key] ?? [];
+          return (
+            <List.Item
+              key={issue.key}
+              title={issue.key}
+              subtitle={issue.fields.summary}
+              keywords={[issue.fields.summary]}
+              icon={issue.fields.issuetype?.iconUrl ?? Icon.Document}
+              accessories={issueAccessories(issue, localBranches)}
+              actions={
+                <ActionPanel>
+                  <ActionPanel.Submenu title="Create Worker Branch" icon={Icon.Plus}>
+                    {[...repo.baseBranches, CURRENT_BASE_BRANCH].map((b) => (
+                      <Action key={b} title={b} onAction={() => handleCreateBranch(issue, b)} />
+                    ))}
+                  </ActionPanel.Submenu>
+                  <Action.OpenInBrowser title="Open in Jira" url={issueBrowseUrl(issue.key)} />
+                  <Action.CopyToClipboard
+                    title="Copy Issue Key"
+                    content={issue.key}
+                    shortcut={{ modifiers: ["cmd"], key: "." }}
+                  />
+                  {localBranches.length ? (
+                    <Action.CopyToClipboard title="Copy Local Branch Name" content={localBranches[0]} />
+                  ) : null}
+                  <Action
+                    title="Reload Issues"
+                    icon={Icon.ArrowClockwise}
+                    shortcut={{ modifiers: ["cmd"], key: "r" }}
+                    onAction={reload}
+                  />
+                  <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+                </ActionPanel>
+              }
+            />
+          );
+        })}
+      </List.Section>
+    </List>
+  );
+}
@@ -1,29 +1,11 @@
 import { Toast, getPreferenceValues, open, openExtensionPreferences, showHUD, showToast } from "@raycast/api";
-import { exec } from "child_process";
-import util from "util";
-
-const asyncExec = util.promisify(exec);
+import { getCurrentRef } from "./lib/git";
+import { pipelinesUrlForBranch } from "./lib/gitlab";
 
 type Preferences = {
   workerDir: string;
 };
 
-const GITLAB_PIPELINES_BASE_URL = "https://gitlab.ddbuild.io/DataDog/synthetics-worker/-/pipelines?page=1&scope=all";
-
-function pipelinesUrlForBranch(branch: string): string {
-  return `${GITLAB_PIPELINES_BASE_URL}&ref=${encodeURIComponent(branch)}`;
-}
-
-async function getCurrentRef(workerDir: string): Promise<string> {
-  const cwd = String(workerDir || "").trim();
-  if (!cwd) throw new Error("Missing workerDir preference.");
-
-  // Repo sanity
-  await asyncExec("git rev-parse --git-dir", { cwd });
-
-  return (await asyncExec("git symbolic-ref --short -q HEAD || git rev-parse --short HEAD", { cwd })).stdout.trim();
-}
-
 export default async function Command() {
   const { workerDir } = getPreferenceValues<Preferences>();
   const normalizedWorkerDir = String(workerDir || "").trim();
@@ -10,24 +10,33 @@ import {
   Toast,
 } from "@raycast/api";
 import { useEffect, useMemo, useRef, useState } from "react";
-import { exec } from "child_process";
-import util from "util";
-
-const asyncExec = util.promisify(exec);
+import { JiraIssueDetail } from "./components/jira-issue-detail";
+import { PipelineJobs } from "./components/pipeline-jobs";
+import { parseBranchName } from "./lib/branch-name";
+import { BranchInfo, loadBranches } from "./lib/git";
+import { useRepoProfiles } from "./hooks/use-repo-profiles";
+import {
+  GITLAB_PROJECT_PATH,
+  GitLabContext,
+  GitLabPipeline,
+  fetchLatestPipelines,
+  pipelinesBaseUrl,
+  pipelinesUrlForBranch,
+} from "./lib/gitlab";
+import { JiraAuthMode, getJiraCredentials } from "./lib/jira";
+import { pipelineAccessories } from "./lib/pipeline-status";
+import { DEFAULT_REPO_ID, resolveGitLabProject } from "./lib/repos";
 
 type Preferences = {
-  workerDir: string;
   gitUsername: string;
+  gitlabToken?: string;
+  jiraEmail?: string;
+  jiraApiToken?: string;
+  jiraAuthMode?: JiraAuthMode;
 };
 
-const GITLAB_PIPELINES_BASE_URL = "https://gitlab.ddbuild.io/DataDog/synthetics-worker/-/pipelines?page=1&scope=all";
-
-type BranchInfo = {
-  branch: string;
-  date?: string;
-  subject?: string;
-  isCurrent: boolean;
-};
+// Branches are sorted by committer date; only the most recent ones get a live pipeline status.
+const PIPELINE_STATUS_BRANCH_LIMIT = 40;
 
 function truncate(input: string | undefined, max: number): string {
   const s = String(input || "").trim();
@@ -46,72 +55,49 @@ function prettifyBranchName(branch: string, gitUsername: string): string {
   return disp;
 }
 
-async function loadBranches(workerDir: string): Promise<{ currentRef: string; branches: BranchInfo[] }> {
-  const cwd = String(workerDir || "").trim();
-  if (!cwd) {
-    throw new Error("Missing workerDir preference.");
-  }
-
-  // Repo sanity
-  await asyncExec("git rev-parse --git-dir", { cwd });
-
-  const currentRef = (await asyncExec("git symbolic-ref --short -q HEAD || git rev-parse --short HEAD", { cwd })).stdout.trim();
-
-  const out = (
-    await asyncExec(
-      "git for-each-ref --sort=-committerdate --format='%(refname:short)\t%(committerdate:short)\t%(subject)' refs/heads",
-      { cwd },
-    )
-  ).stdout;
-
-  const branches: BranchInfo[] = out
-    .split("\n")
-    .map((line) => line.trim())
-    .filter(Boolean)
-    .map((line) => {
-      const parts = line.split("\t");
-      const branch = (parts[0] || "").trim();
-      const date = (parts[1] || "").trim();
-      // Subject might contain tabs (rare), so re-join.
-      const subject = parts.slice(2).join("\t").trim();
-      return {
-        branch,
-        date,
-        subject,
-        isCurrent: branch === currentRef,
-      } satisfies BranchInfo;
-    })
-    .filter((b) => b.branch.length > 0);
-
-  return { currentRef, branches };
-}
-
-function pipelinesUrlForBranch(branch: string): string {
-  return `${GITLAB_PIPELINES_BASE_URL}&ref=${encodeURIComponent(branch)}`;
-}
-
 export default function Command() {
   const prefs = getPreferenceValues<Preferences>();
-  const workerDir = useMemo(() => String(prefs.workerDir || "").trim(), [prefs.workerDir]);
+  const { profiles } = useRepoProfiles();
+  const [repoId, setRepoId] = useState<string>(DEFAULT_REPO_ID);
+  const repo = useMemo(() => profiles.find((p) => p.id === repoId) ?? profiles[0], [profiles, repoId]);
+  const workerDir = repo.directory;
   const gitUsername = useMemo(() => String(prefs.gitUsername || "").trim(), [prefs.gitUsername]);
+  const gitlabToken = useMemo(() => String(prefs.gitlabToken || "").trim(), [prefs.gitlabToken]);
+  const jiraCreds = useMemo(() => getJiraCredentials(prefs), [prefs.jiraEmail, prefs.jiraApiToken, prefs.jiraAuthMode]);
+  const [isShowingDetail, setIsShowingDetail] = useState<boolean>(false);
 
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [projectPath, setProjectPath] = useState<string>(repo.gitlabProject || GITLAB_PROJECT_PATH);
+  // False until detection succeeds: the fallback project is only good enough for links, not for pipeline status.
+  const [isProjectResolved, setIsProjectResolved] = useState<boolean>(false);
+  const gitlab = useMemo<GitLabContext>(() => ({ token: gitlabToken, projectPath }), [gitlabToken, projectPath]);
   const [currentRef, setCurrentRef] = useState<string>("");
   const [branches, setBranches] = useState<BranchInfo[]>([]);
   const [error, setError] = useState<string>("");
+  const [pipelines, setPipelines] = useState<Record<string, GitLabPipeline | null>>({});
+  const [isLoadingPipelines, setIsLoadingPipelines] = useState<boolean>(false);
+  const pipelinesReqIdRef = useRef<number>(0);
   const [selectedItemId, setSelectedItemId] = useState<string>("open-gitlab");
   const userInteractedRef = useRef<boolean>(false);
   const autoSelectedRef = useRef<boolean>(false);
   const autoSelectingRef = useRef<boolean>(false);
 
+  const reloadReqIdRef = useRef<number>(0);
+
   async function reload() {
+    const reqId = ++reloadReqIdRef.current;
     setIsLoading(true);
     setError("");
+    // Branches need no GitLab: project detection runs on its own so its failure can't hide them.
+    void reloadProject(reqId);
     try {
       const res = await loadBranches(workerDir);
+      // Ignore responses for the previously selected repository.
+      if (reqId !== reloadReqIdRef.current) return;
       setCurrentRef(res.currentRef);
       setBranches(res.branches);
     } catch (e) {
+      if (reqId !== reloadReqIdRef.current) return;
       const msg = e instanceof Error ? e.message : String(e);
       setError(msg);
       setBranches([]);
@@ -123,13 +109,66 @@ export default function Command() {
         message: msg,
       });
     } finally {
-      setIsLoading(false);
+      if (reqId === reloadReqIdRef.current) setIsLoading(false);
+    }
+  }
+
+  async function reloadProject(reqId: number) {
+    try {
+      const resolvedProjectPath = await resolveGitLabProject(repo);
+      if (reqId !== reloadReqIdRef.current) return;
+      setProjectPath(resolvedProjectPath);
+      setIsProjectResolved(true);
+    } catch (e) {
+      if (reqId !== reloadReqIdRef.current) return;
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Couldn't detect the GitLab project",
+        message: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+
+  async function reloadPipelines(target: GitLabContext, refs: string[]) {
+    // Pipeline status is optional: without a token the list behaves as plain links.
+    if (!target.token) return;
+
+    const reqId = ++pipelinesReqIdRef.current;
+    setIsLoadingPipelines(true);
+    try {
+      const res = await fetchLatestPipelines(target, refs.filter(Boolean));
+      // Ignore stale responses.
+      if (reqId !== pipelinesReqIdRef.current) return;
+      setPipelines(res);
+    } catch (e) {
+      if (reqId !== pipelinesReqIdRef.current) return;
+      const msg = e instanceof Error ? e.message : String(e);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Couldn't load pipeline status",
+        message: msg,
+      });
+    } finally {
+      if (reqId === pipelinesReqIdRef.current) setIsLoadingPipelines(false);
     }
   }
 
   useEffect(() => {
+    setPipelines({});
+    setProjectPath(repo.gitlabProject || GITLAB_PROJECT_PATH);
+    setIsProjectResolved(false);
     void reload();
-  }, [workerDir]);
+  }, [repo.id, repo.directory, repo.gitlabProject, gitlabToken]);
+
+  // Pipeline status needs both the branches and the resolved project, whichever arrives last.
+  useEffect(() => {
+    if (isLoading || !isProjectResolved || !gitlabToken) return;
+    void reloadPipelines(gitlab, [
+      ...repo.pipelineBranches,
+      currentRef,
+      ...branches.slice(0, PIPELINE_STATUS_BRANCH_LIMIT).map((b) => b.branch),
+    ]);
+  }, [isLoading, isProjectResolved, gitlab, branches, currentRef]);
 
   useEffect(() => {
     // Raycast can keep selection when new items appear; we only want to auto-select once,
@@ -152,6 +191,24 @@ export default function Command() {
     return () => clearTimeout(t);
   }, [currentRef, selectedItemId]);
 
+  // Only the selected item fetches its issue; the other panes are never visible.
+  function branchDetail(branch: string, itemId: string) {
+    if (!isShowingDetail) return undefined;
+    const { issueKey } = parseBranchName(branch);
+    if (!issueKey) return <List.Item.Detail markdown={`## ${branch}\n\nNo Jira key in this branch name.`} />;
+    if (itemId !== selectedItemId) return <List.Item.Detail markdown={`## ${issueKey}`} />;
+    return <JiraIssueDetail creds={jiraCreds} issueKey={issueKey} />;
+  }
+
+  const toggleDetailAction = (
+    <Action
+      title={isShowingDetail ? "Hide Jira Details" : "Show Jira Details"}
+      icon={Icon.Sidebar}
+      shortcut={{ modifiers: ["cmd"], key: "d" }}
+      onAction={() => setIsShowingDetail((v) => !v)}
+    />
+  );
+
   const sortedBranches = useMemo(() => {
     const current = branches.filter((b) => b.isCurrent);
     const rest = branches.filter((b) => !b.isCurrent);
@@ -160,10 +217,17 @@ export default function Command() {
 
   return (
     <List
-      isLoading={isLoading}
+      isLoading={isLoading || isLoadingPipelines}
       searchBarPlaceholder="Search branch…"
-      navigationTitle="GitLab Pipelines — Synthetics Worker"
-      isShowingDetail={false}
+      navigationTitle={`GitLab Pipelines — ${repo.name}`}
+      searchBarAccessory={
+        <List.Dropdown tooltip="Repository" storeValue onChange={setRepoId}>
+          {profiles.map((p) => (
+            <List.Dropdown.Item key={p.id} value={p.id} title={p.name} />
+          ))}
+        </List.Dropdown>
+      }
+      isShowingDetail={isShowingDetail}
       selectedItemId={selectedItemId}
       onSelectionChange={(id) => {
         if (!id) return;
@@ -182,14 +246,25 @@ export default function Command() {
             title="Pipelines for Current Branch"
             subtitle={currentRef}
             icon={Icon.Star}
+            accessories={pipelineAccessories(pipelines[currentRef])}
+            detail={branchDetail(currentRef, "current-branch")}
             actions={
               <ActionPanel>
                 <Action.OpenInBrowser
                   title="Open Pipelines for Current Branch"
-                  url={pipelinesUrlForBranch(currentRef)}
+                  url={pipelinesUrlForBranch(currentRef, projectPath)}
                   onOpen={() => void showHUD(`Opening pipelines for ${currentRef}…`)}
                 />
-                <Action.CopyToClipboard title="Copy URL" content={pipelinesUrlForBranch(currentRef)} />
+                {gitlabToken ? (
+                  <Action.Push
+                    title="Show Pipeline Jobs"
+                    icon={Icon.List}
+                    shortcut={{ modifiers: ["cmd"], key: "j" }}
+                    target={<PipelineJobs gitlab={gitlab} branch={currentRef} />}
+                  />
+                ) : null}
+                <Action.CopyToClipboard title="Copy URL" content={pipelinesUrlForBranch(currentRef, projectPath)} />
+                {toggleDetailAction}
                 <Action
                   title="Reload Branches"
                   icon={Icon.ArrowClockwise}
@@ -210,7 +285,7 @@ export default function Command() {
             <ActionPanel>
               <Action.OpenInBrowser
                 title="Open GitLab (No Filter)"
-                url={GITLAB_PIPELINES_BASE_URL}
+                url={pipelinesBaseUrl(projectPath)}
                 onOpen={() => void showHUD("Opening GitLab (no filter)…")}
               />
               <Action
@@ -224,53 +299,41 @@ export default function Command() {
           }
         />
 
-        <List.Item
-          id="pipelines-prod"
-          title="Pipelines for prod"
-          subtitle="prod"
-          icon={Icon.Star}
-          actions={
-            <ActionPanel>
-              <Action.OpenInBrowser
-                title="Open Pipelines for Prod"
-                url={pipelinesUrlForBranch("prod")}
-                onOpen={() => void showHUD("Opening pipelines for prod…")}
-              />
-              <Action.CopyToClipboard title="Copy URL" content={pipelinesUrlForBranch("prod")} />
-              <Action
-                title="Reload Branches"
-                icon={Icon.ArrowClockwise}
-                shortcut={{ modifiers: ["cmd"], key: "r" }}
-                onAction={reload}
-              />
-              <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
-            </ActionPanel>
-          }
-        />
-
-        <List.Item
-          id="pipelines-staging"
-          title="Pipelines for staging"
-          subtitle="staging"
-          icon={Icon.Star}
-          actions={
-            <ActionPanel>
-              <Action.OpenInBrowser
-                title="Open Pipelines for Staging"
-                url={pipelinesUrlForBranch("staging")}
-                onOpen={() => void showHUD("Opening pipelines for staging…")}
-              />
-              <Action.CopyToClipboard title="Copy URL" content={pipelinesUrlForBranch("staging")} />
-              <Action
-                title="Reload Branches"
-                icon={Icon.ArrowClockwise}
-                shortcut={{ modifiers: ["cmd"], key: "r" }}
-                onAction={reload}
-              />
-              <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
-            </ActionPanel>
-          }
-        />
+        {repo.pipelineBranches.map((ref) => (
+          <List.Item
+            id={`pipelines-${ref}`}
+            key={ref}
+            title={`Pipelines for ${ref}`}
+            subtitle={ref}
+            icon={Icon.Star}
+            accessories={pipelineAccessories(pipelines[ref])}
+            actions={
+              <ActionPanel>
+                <Action.OpenInBrowser
+                  title={`Open Pipelines for ${ref}`}
+                  url={pipelinesUrlForBranch(ref, projectPath)}
+                  onOpen={() => void showHUD(`Opening pipelines for ${ref}…`)}
+                />
+                {gitlabToken ? (
+                  <Action.Push
+                    title="Show Pipeline Jobs"
+                    icon={Icon.List}
+                    shortcut={{ modifiers: ["cmd"], key: "j" }}
+                    target={<PipelineJobs gitlab={gitlab} branch={ref} />}
+                  />
+                ) : null}
+                <Action.CopyToClipboard title="Copy URL" content={pipelinesUrlForBranch(ref, projectPath)} />
+                <Action
+                  title="Reload Branches"
+                  icon={Icon.ArrowClockwise}
+                  shortcut={{ modifiers: ["cmd"], key: "r" }}
+                  onAction={reload}
+                />
+                <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+              </ActionPanel>
+            }
+          />
+        ))}
       </List.Section>
 
       <List.Section
@@ -298,15 +361,26 @@ export default function Command() {
               title={title}
               subtitle={subtitle}
               icon={b.isCurrent ? Icon.CheckCircle : Icon.Dot}
+              accessories={pipelineAccessories(pipelines[b.branch])}
+              detail={branchDetail(b.branch, `branch:${b.branch}`)}
               actions={
                 <ActionPanel>
                   <Action.OpenInBrowser
                     title="Open Pipelines for This Branch"
-                    url={pipelinesUrlForBranch(b.branch)}
+                    url={pipelinesUrlForBranch(b.branch, projectPath)}
                     onOpen={() => void showHUD(`Opening pipelines for ${b.branch}…`)}
                   />
+                  {gitlabToken ? (
+                    <Action.Push
+                      title="Show Pipeline Jobs"
+                      icon={Icon.List}
+                      shortcut={{ modifiers: ["cmd"], key: "j" }}
+                      target={<PipelineJobs gitlab={gitlab} branch={b.branch} />}
+                    />
+                  ) : null}
                   <Action.CopyToClipboard title="Copy Branch Name" content={b.branch} />
-                  <Action.CopyToClipboard title="Copy URL" content={pipelinesUrlForBranch(b.branch)} />
+                  <Action.CopyToClipboard title="Copy URL" content={pipelinesUrlForBranch(b.branch, projectPath)} />
+                  {toggleDetailAction}
                   <Action
                     title="Reload Branches"
                     icon={Icon.ArrowClockwise}
@@ -0,0 +1,155 @@
+import { Icon, LocalStorage, MenuBarExtra, getPreferenceValues, open, openExtensionPreferences } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { loadBranches } from "./lib/git";
+import {
+  GitLabPipeline,
+  PipelineStatus,
+  fetchLatestPipelines,
+  pipelinesBaseUrl,
+  pipelinesUrlForBranch,
+} from "./lib/gitlab";
+import { notify } from "./lib/notify";
+import { isPipelineFinished, pipelineStatusIcon, pipelineStatusLabel } from "./lib/pipeline-status";
+import { defaultRepoProfile, resolveGitLabProject } from "./lib/repos";
+
+type Preferences = {
+  gitlabToken?: string;
+  monitorBranchCount?: string;
+};
+
+const STORAGE_KEY = "pipeline-monitor";
+const DEFAULT_BRANCH_COUNT = 5;
+const PROD_REF = "prod";
+
+// Last status seen per ref, to notify only on transitions.
+type WatchedPipelines = Record<string, { id: number; status: PipelineStatus }>;
+
+type MonitorState = {
+  projectPath: string;
+  currentRef: string;
+  recentRefs: string[];
+  pipelines: Record<string, GitLabPipeline | null>;
+};
+
+async function loadWatched(): Promise<WatchedPipelines> {
+  const raw = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as WatchedPipelines;
+  } catch {
+    return {};
+  }
+}
+
+async function notifyTransitions(pipelines: Record<string, GitLabPipeline | null>) {
+  const watched = await loadWatched();
+  const next: WatchedPipelines = {};
+  for (const [ref, pipeline] of Object.entries(pipelines)) {
+    if (!pipeline) continue;
+    next[ref] = { id: pipeline.id, status: pipeline.status };
+    const previous = watched[ref];
+    if (!previous || !isPipelineFinished(pipeline.status)) continue;
+    // Either the watched run just finished, or a whole new run finished between two polls.
+    const justFinished = previous.id !== pipeline.id || !isPipelineFinished(previous.status);
+    if (justFinished) {
+      await notify(`Pipeline ${pipelineStatusLabel(pipeline.status)}: ${ref}`, `#${pipeline.id} on ${ref}`).catch(
+        () => undefined,
+      );
+    }
+  }
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+}
+
+export default function Command() {
+  const prefs = getPreferenceValues<Preferences>();
+  // The menu bar has no repository picker: it follows the Worker Directory, like the default repository profile.
+  const repo = defaultRepoProfile();
+  const workerDir = repo.directory;
+  const gitlabToken = String(prefs.gitlabToken || "").trim();
+  const branchCount = parseInt(String(prefs.monitorBranchCount || ""), 10) || DEFAULT_BRANCH_COUNT;
+
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [state, setState] = useState<MonitorState | null>(null);
+  const [error, setError] = useState<string>("");
+
+  async function refresh() {
+    setIsLoading(true);
+    try {
+      if (!workerDir || !gitlabToken)
+        throw new Error("Set Worker Directory and GitLab token in extension preferences.");
+      // loadBranches() resolves the checked out ref with getCurrentRef(), like Open GitLab Pipelines (Current Branch).
+      const [{ currentRef, branches }, projectPath] = await Promise.all([
+        loadBranches(workerDir),
+        resolveGitLabProject(repo),
+      ]);
+      const recentRefs = branches
+        .map((b) => b.branch)
+        .filter((b) => b !== currentRef && b !== PROD_REF)
+        .slice(0, branchCount);
+      const pipelines = await fetchLatestPipelines({ token: gitlabToken, projectPath }, [
+        currentRef,
+        ...recentRefs,
+        PROD_REF,
+      ]);
+      await notifyTransitions(pipelines);
+      setState({ projectPath, currentRef, recentRefs, pipelines });
+      setError("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void refresh();
+  }, []);
+
+  const current = state ? state.pipelines[state.currentRef] : null;
+
+  function pipelineItem(ref: string) {
+    const pipeline = state?.pipelines[ref];
+    return (
+      <MenuBarExtra.Item
+        key={ref}
+        title={ref}
+        subtitle={pipeline ? pipelineStatusLabel(pipeline.status) : "no pipeline"}
+        icon={pipeline ? pipelineStatusIcon(pipeline.status) : Icon.Circle}
+        onAction={() => open(pipeline?.web_url ?? pipelinesUrlForBranch(ref, state?.projectPath))}
+      />
+    );
+  }
+
+  return (
+    <MenuBarExtra
+      isLoading={isLoading}
+      icon={current ? pipelineStatusIcon(current.status) : Icon.Rocket}
+      title={current ? pipelineStatusLabel(current.status) : undefined}
+      tooltip={state ? `Pipeline of ${state.currentRef}` : "GitLab pipelines"}
+    >
+      {error ? <MenuBarExtra.Item title={error} icon={Icon.Warning} onAction={openExtensionPreferences} /> : null}
+      {state ? (
+        <>
+          <MenuBarExtra.Section title="Current Branch">{pipelineItem(state.currentRef)}</MenuBarExtra.Section>
+          <MenuBarExtra.Section title="Recent Branches">{state.recentRefs.map(pipelineItem)}</MenuBarExtra.Section>
+          {state.currentRef !== PROD_REF ? (
+            <MenuBarExtra.Section title="Prod">{pipelineItem(PROD_REF)}</MenuBarExtra.Section>
+          ) : null}
+        </>
+      ) : null}
+      <MenuBarExtra.Section>
+        <MenuBarExtra.Item
+          title="Open GitLab Pipelines"
+          icon={Icon.Globe}
+          onAction={() => open(pipelinesBaseUrl(state?.projectPath ?? repo.gitlabProject))}
+        />
+        <MenuBarExtra.Item
+          title="Refresh"
+          icon={Icon.ArrowClockwise}
+          shortcut={{ modifiers: ["cmd"], key: "r" }}
+          onAction={refresh}
+        />
+      </MenuBarExtra.Section>
+    </MenuBarExtra>
+  );
+}
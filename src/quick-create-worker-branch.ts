@@ -0,0 +1,110 @@
+import {
+  LaunchProps,
+  LaunchType,
+  Toast,
+  getPreferenceValues,
+  launchCommand,
+  openExtensionPreferences,
+  showToast,
+} from "@raycast/api";
+import { createBranchAndStartWork } from "./hooks/use-run-create-branch";
+import { gitErrorMessage } from "./lib/git";
+import { DEFAULT_JIRA_START_STATUS, JiraAuthMode, fetchIssueBasics, getJiraCredentials } from "./lib/jira";
+import { detectJiraInput, normalizeJiraIdFromInput } from "./lib/jira-input";
+import { defaultRepoProfile } from "./lib/repos";
+import { BranchPreflightError, CURRENT_BASE_BRANCH, CreateWorkerBranchContext } from "./lib/worker-branch";
+
+type Preferences = {
+  gitUsername: string;
+  jiraEmail?: string;
+  jiraApiToken?: string;
+  jiraAuthMode?: JiraAuthMode;
+  jiraStartStatus?: string;
+  quickCreateTransitionIssue?: boolean;
+  quickCreateAssignToMe?: boolean;
+  quickCreateCommentBranch?: boolean;
+};
+
+type Arguments = {
+  jira?: string;
+};
+
+// Anything the quick path can't decide on its own goes to the Create Worker Branch form, prefilled.
+async function openForm(context: CreateWorkerBranchContext) {
+  await launchCommand({ name: "create-worker-branch", type: LaunchType.UserInitiated, context });
+}
+
+export default async function Command(
+  props: LaunchProps<{ arguments: Arguments; launchContext?: CreateWorkerBranchContext }>,
+) {
+  const prefs = getPreferenceValues<Preferences>();
+  const repo = defaultRepoProfile();
+  const gitUsername = String(prefs.gitUsername || "")
+    .trim()
+    .replace(/\s+/g, "");
+
+  if (!repo.directory || !gitUsername) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Missing Preferences",
+      message: "Set Worker Directory and Git Username in extension preferences.",
+    });
+    await openExtensionPreferences();
+    return;
+  }
+
+  const input = String(props.launchContext?.jira || props.arguments?.jira || "").trim();
+  const jiraId = input
+    ? normalizeJiraIdFromInput(input, repo.jiraProjectKey)
+    : ((await detectJiraInput(repo.jiraProjectKey))?.issueKey ?? "");
+  if (!jiraId) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "No Jira issue found",
+      message: input
+        ? `"${input}" is not a Jira link or issue key.`
+        : "Pass a key or link, or select / copy one before running the command.",
+    });
+    return;
+  }
+
+  const creds = getJiraCredentials(prefs);
+  if (!creds) {
+    // Without credentials there's no summary to name the branch after.
+    await openForm({ jira: jiraId, description: props.launchContext?.description });
+    return;
+  }
+
+  const toast = await showToast({ style: Toast.Style.Animated, title: `Creating branch for ${jiraId}…` });
+  try {
+    const { summary, issueType } = await fetchIssueBasics({ jiraId, ...creds });
+    const description = String(props.launchContext?.description || "").trim() || summary;
+    await createBranchAndStartWork(
+      {
+        jiraId,
+        description,
+        issueType,
+        baseBranch: repo.baseBranches[0] || CURRENT_BASE_BRANCH,
+        workerDir: repo.directory,
+        gitUsername,
+      },
+      // The form asks every time; here the Jira follow-ups are opt-in command preferences.
+      {
+        transitionIssue: !!prefs.quickCreateTransitionIssue,
+        assignToMe: !!prefs.quickCreateAssignToMe,
+        commentBranch: !!prefs.quickCreateCommentBranch,
+      },
+      String(prefs.jiraStartStatus || "").trim() || DEFAULT_JIRA_START_STATUS,
+    );
+  } catch (e) {
+    if (e instanceof BranchPreflightError) {
+      // Uncommitted changes or an existing branch: the form's pre-flight view asks what to do.
+      await toast.hide();
+      await openForm({ jira: jiraId, description: props.launchContext?.description });
+      return;
+    }
+    toast.style = Toast.Style.Failure;
+    toast.title = `Couldn't create a branch for ${jiraId}`;
+    toast.message = gitErrorMessage(e);
+  }
+}
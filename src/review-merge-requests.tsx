@@ -0,0 +1,364 @@
+import {
+  Action,
+  ActionPanel,
+  Color,
+  Icon,
+  List,
+  Toast,
+  getPreferenceValues,
+  openExtensionPreferences,
+  showToast,
+} from "@raycast/api";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useRepoProfiles } from "./hooks/use-repo-profiles";
+import { parseBranchName } from "./lib/branch-name";
+import { getCurrentRef, gitErrorMessage, listWorktrees } from "./lib/git";
+import {
+  GitLabApprovals,
+  GitLabContext,
+  GitLabMergeRequest,
+  GitLabPipeline,
+  GitLabUser,
+  fetchCurrentUser,
+  fetchLatestPipelines,
+  fetchMergeRequestApprovals,
+  fetchMergeRequestsToReview,
+  pipelinesUrlForBranch,
+} from "./lib/gitlab";
+import { extractIssueKey, issueBrowseUrl } from "./lib/jira";
+import { pipelineStatusIcon, pipelineStatusLabel } from "./lib/pipeline-status";
+import { DEFAULT_REPO_ID, resolveGitLabProject } from "./lib/repos";
+import {
+  ReviewReturn,
+  checkoutReviewBranch,
+  checkoutReviewWorktree,
+  loadReviewReturn,
+  returnFromReview,
+  reviewBranchName,
+} from "./lib/review-branch";
+
+type Preferences = {
+  gitlabToken?: string;
+};
+
+type ReviewState = {
+  me: GitLabUser;
+  mergeRequests: GitLabMergeRequest[];
+  currentRef: string;
+  // Worktree path per branch, for branches already checked out next to the repository.
+  worktrees: Record<string, string>;
+  reviewReturn: ReviewReturn | null;
+};
+
+function issueKeyOf(mr: GitLabMergeRequest): string | null {
+  return parseBranchName(mr.source_branch).issueKey ?? extractIssueKey(mr.title);
+}
+
+function approvalAccessory(approvals: GitLabApprovals | null | undefined): List.Item.Accessory | null {
+  if (!approvals) return null;
+  const names = approvals.approved_by.map((a) => a.user.name).join(", ");
+  if (approvals.approved) {
+    return { tag: { value: "approved", color: Color.Green }, tooltip: names ? `Approved by ${names}` : "Approved" };
+  }
+  return {
+    tag: { value: `${approvals.approvals_left ?? 0} approval(s) left`, color: Color.Orange },
+    tooltip: names ? `Approved by ${names}` : "No approvals yet",
+  };
+}
+
+function mergeRequestAccessories(
+  mr: GitLabMergeRequest,
+  me: GitLabUser,
+  pipeline: GitLabPipeline | null | undefined,
+  approvals: GitLabApprovals | null | undefined,
+): List.Item.Accessory[] {
+  const issueKey = issueKeyOf(mr);
+  const isReviewer = mr.reviewers?.some((u) => u.id === me.id);
+  const accessories: (List.Item.Accessory | null)[] = [
+    issueKey ? { tag: { value: issueKey, color: Color.Blue } } : null,
+    mr.draft ? { tag: { value: "draft", color: Color.SecondaryText } } : null,
+    mr.has_conflicts ? { icon: { source: Icon.Warning, tintColor: Color.Red }, tooltip: "Has conflicts" } : null,
+    approvalAccessory(approvals),
+    pipeline
+      ? {
+          icon: pipelineStatusIcon(pipeline.status),
+          tooltip: `Pipeline #${pipeline.id}: ${pipelineStatusLabel(pipeline.status)}`,
+        }
+      : null,
+    { icon: isReviewer ? Icon.Eye : Icon.Person, tooltip: isReviewer ? "You are a reviewer" : "Assigned to you" },
+    { date: new Date(mr.updated_at), tooltip: `Updated ${mr.updated_at}` },
+  ];
+  return accessories.filter((a): a is List.Item.Accessory => a !== null);
+}
+
+export default function Command() {
+  const prefs = getPreferenceValues<Preferences>();
+  const gitlabToken = String(prefs.gitlabToken || "").trim();
+  const { profiles } = useRepoProfiles();
+  const [repoId, setRepoId] = useState<string>(DEFAULT_REPO_ID);
+  const repo = useMemo(() => profiles.find((p) => p.id === repoId) ?? profiles[0], [profiles, repoId]);
+  const workerDir = repo.directory;
+
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [gitlab, setGitlab] = useState<GitLabContext | null>(null);
+  const [state, setState] = useState<ReviewState | null>(null);
+  const [pipelines, setPipelines] = useState<Record<string, GitLabPipeline | null>>({});
+  const [approvals, setApprovals] = useState<Record<number, GitLabApprovals | null>>({});
+  const detailsReqIdRef = useRef<number>(0);
+
+  async function reloadLocal() {
+    const [currentRef, worktrees, reviewReturn] = await Promise.all([
+      getCurrentRef(workerDir),
+      listWorktrees(workerDir),
+      loadReviewReturn(workerDir),
+    ]);
+    const byBranch = Object.fromEntries(
+      worktrees.filter((w) => w.branch && !w.isMain && !w.isPrunable).map((w) => [w.branch as string, w.path]),
+    );
+    return { currentRef, worktrees: byBranch, reviewReturn };
+  }
+
+  async function reload() {
+    if (!gitlabToken) {
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const target: GitLabContext = { token: gitlabToken, projectPath: await resolveGitLabProject(repo) };
+      const me = await fetchCurrentUser(gitlabToken);
+      const [mergeRequests, local] = await Promise.all([fetchMergeRequestsToReview(target, me.id), reloadLocal()]);
+      // Someone assigning their own MR to themselves doesn't make it a review.
+      const others = mergeRequests.filter((mr) => mr.author.id !== me.id);
+      setGitlab(target);
+      setState({ me, mergeRequests: others, ...local });
+      void reloadDetails(target, others);
+    } catch (e) {
+      setState(null);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Couldn't load merge requests",
+        message: gitErrorMessage(e),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // Pipelines and approvals fill in after the list; a failure only leaves their accessories empty.
+  async function reloadDetails(target: GitLabContext, mergeRequests: GitLabMergeRequest[]) {
+    const reqId = ++detailsReqIdRef.current;
+    const [pipelineResult, approvalResults] = await Promise.all([
+      fetchLatestPipelines(
+        target,
+        mergeRequests.filter((mr) => mr.source_project_id === mr.project_id).map((mr) => mr.source_branch),
+      ).catch(() => ({})),
+      Promise.all(
+        mergeRequests.map(
+          async (mr) => [mr.iid, await fetchMergeRequestApprovals(target, mr.iid).catch(() => null)] as const,
+        ),
+      ),
+    ]);
+    // Ignore stale responses.
+    if (reqId !== detailsReqIdRef.current) return;
+    setPipelines(pipelineResult);
+    setApprovals(Object.fromEntries(approvalResults));
+  }
+
+  async function refreshLocal() {
+    try {
+      const local = await reloadLocal();
+      setState((prev) => (prev ? { ...prev, ...local } : prev));
+    } catch {
+      // The next full reload reports git errors.
+    }
+  }
+
+  useEffect(() => {
+    setPipelines({});
+    setApprovals({});
+    void reload();
+  }, [repo.id, repo.directory, repo.gitlabProject, gitlabToken]);
+
+  async function handleCheckout(mr: GitLabMergeRequest) {
+    const branch = reviewBranchName(mr);
+    const toast = await showToast({ style: Toast.Style.Animated, title: `Checking out !${mr.iid}…` });
+    try {
+      const result = await checkoutReviewBranch(workerDir, mr);
+      if (result.restoreError || result.updateError) {
+        toast.style = Toast.Style.Failure;
+        toast.title = result.restoreError
+          ? `Checked out ${branch}, but its auto-stash didn't apply cleanly`
+          : `Checked out ${branch}, but couldn't fast-forward it to the MR`;
+        toast.message = result.restoreError ?? result.updateError;
+      } else {
+        toast.style = Toast.Style.Success;
+        toast.title = `Checked out ${branch}`;
+        toast.message = result.stashed ? `Stashed changes of ${result.previousRef}` : "";
+      }
+    } catch (e) {
+      toast.style = Toast.Style.Failure;
+      toast.title = `Couldn't check out !${mr.iid}`;
+      toast.message = gitErrorMessage(e);
+    }
+    await refreshLocal();
+  }
+
+  async function handleCheckoutWorktree(mr: GitLabMergeRequest) {
+    const toast = await showToast({ style: Toast.Style.Animated, title: `Checking out !${mr.iid} in a worktree…` });
+    try {
+      const { branch, worktreePath, updateError } = await checkoutReviewWorktree(workerDir, mr);
+      toast.style = updateError ? Toast.Style.Failure : Toast.Style.Success;
+      toast.title = updateError
+        ? `${branch} is in ${worktreePath}, but couldn't fast-forward it to the MR`
+        : `Checked out ${branch} in a worktree`;
+      toast.message = updateError ?? worktreePath;
+    } catch (e) {
+      toast.style = Toast.Style.Failure;
+      toast.title = `Couldn't create a worktree for !${mr.iid}`;
+      toast.message = gitErrorMessage(e);
+    }
+    await refreshLocal();
+  }
+
+  async function handleReturn() {
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Switching back…" });
+    try {
+      const result = await returnFromReview(workerDir);
+      if (result.restoreError) {
+        toast.style = Toast.Style.Failure;
+        toast.title = `Back on ${result.branch}, but its auto-stash didn't apply cleanly`;
+        toast.message = result.restoreError;
+      } else {
+        toast.style = Toast.Style.Success;
+        toast.title = `Back on ${result.branch}`;
+        toast.message = result.restored ? "Restored its stashed changes" : "";
+      }
+    } catch (e) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Couldn't switch back";
+      toast.message = gitErrorMessage(e);
+    }
+    await refreshLocal();
+  }
+
+  const returnTo =
+    state?.reviewReturn && state.reviewReturn.returnTo !== state.currentRef ? state.reviewReturn.returnTo : null;
+
+  const sharedActions = (
+    <>
+      {returnTo ? (
+        <Action
+          title={`Back to ${returnTo}`}
+          icon={Icon.ArrowLeftCircle}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "b" }}
+          onAction={handleReturn}
+        />
+      ) : null}
+      <Action title="Reload" icon={Icon.ArrowClockwise} shortcut={{ modifiers: ["cmd"], key: "r" }} onAction={reload} />
+    </>
+  );
+
+  return (
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder="Search merge requests, authors, branches or Jira keys…"
+      searchBarAccessory={
+        <List.Dropdown tooltip="Repository" storeValue onChange={setRepoId}>
+          {profiles.map((p) => (
+            <List.Dropdown.Item key={p.id} value={p.id} title={p.name} />
+          ))}
+        </List.Dropdown>
+      }
+    >
+      {!gitlabToken ? (
+        <List.EmptyView
+          icon={Icon.Key}
+          title="GitLab token missing"
+          description="Set the GitLab Personal Access Token (read_api scope) in extension preferences."
+          actions={
+            <ActionPanel>
+              <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+            </ActionPanel>
+          }
+        />
+      ) : state && !state.mergeRequests.length ? (
+        <List.EmptyView
+          icon={Icon.CheckCircle}
+          title="Nothing to review"
+          description="No open merge request has you as reviewer or assignee."
+          actions={<ActionPanel>{sharedActions}</ActionPanel>}
+        />
+      ) : null}
+      {state && gitlab ? (
+        <List.Section
+          title="To Review"
+          subtitle={returnTo ? `on ${state.currentRef} · back to ${returnTo} with ⌘⇧B` : `on ${state.currentRef}`}
+        >
+          {state.mergeRequests.map((mr) => {
+            const branch = reviewBranchName(mr);
+            const issueKey = issueKeyOf(mr);
+            const worktreePath = state.worktrees[branch];
+            return (
+              <List.Item
+                key={mr.iid}
+                title={mr.title}
+                subtitle={`!${mr.iid} · ${mr.author.name}`}
+                icon={branch === state.currentRef ? { source: Icon.Checkmark, tintColor: Color.Green } : Icon.Code}
+                keywords={[mr.source_branch, mr.author.username, mr.author.name, ...(issueKey ? [issueKey] : [])]}
+                accessories={mergeRequestAccessories(
+                  mr,
+                  state.me,
+                  // Fork branches have no pipelines in this project; a same-named branch here would be another one.
+                  mr.source_project_id === mr.project_id ? pipelines[mr.source_branch] : undefined,
+                  approvals[mr.iid],
+                )}
+                actions={
+                  <ActionPanel>
+                    <ActionPanel.Section>
+                      <Action title="Checkout Branch" icon={Icon.Download} onAction={() => handleCheckout(mr)} />
+                      <Action
+                        title="Checkout in Worktree"
+                        icon={Icon.Folder}
+                        shortcut={{ modifiers: ["cmd", "shift"], key: "w" }}
+                        onAction={() => handleCheckoutWorktree(mr)}
+                      />
+                      {worktreePath ? (
+                        <Action.ShowInFinder title="Show Worktree in Finder" path={worktreePath} />
+                      ) : null}
+                      {sharedActions}
+                    </ActionPanel.Section>
+                    <ActionPanel.Section>
+                      <Action.OpenInBrowser
+                        title="Open Merge Request"
+                        url={mr.web_url}
+                        shortcut={{ modifiers: ["cmd"], key: "o" }}
+                      />
+                      <Action.OpenInBrowser
+                        title="Open Pipelines"
+                        url={pipelinesUrlForBranch(mr.source_branch, gitlab.projectPath)}
+                        shortcut={{ modifiers: ["cmd"], key: "p" }}
+                      />
+                      {issueKey ? (
+                        <Action.OpenInBrowser
+                          title="Open Jira Issue"
+                          url={issueBrowseUrl(issueKey)}
+                          shortcut={{ modifiers: ["cmd"], key: "j" }}
+                        />
+                      ) : null}
+                      <Action.CopyToClipboard
+                        title="Copy Branch Name"
+                        content={mr.source_branch}
+                        shortcut={{ modifiers: ["cmd"], key: "." }}
+                      />
+                    </ActionPanel.Section>
+                  </ActionPanel>
+                }
+              />
+            );
+          })}
+        </List.Section>
+      ) : null}
+    </List>
+  );
+}
@@ -0,0 +1,130 @@
+import {
+  Action,
+  ActionPanel,
+  Clipboard,
+  Form,
+  Icon,
+  Toast,
+  closeMainWindow,
+  getPreferenceValues,
+  open,
+  showHUD,
+  showToast,
+} from "@raycast/api";
+import { useEffect, useState } from "react";
+import { gitErrorMessage } from "./lib/git";
+import { GitLabContext } from "./lib/gitlab";
+import { getJiraCredentials } from "./lib/jira";
+import { defaultRepoProfile, resolveGitLabProject } from "./lib/repos";
+import { buildStandupMarkdown, loadStandupData } from "./lib/standup";
+
+type Preferences = {
+  gitUsername: string;
+  dailyZoomUrl: string;
+  jiraEmail?: string;
+  jiraApiToken?: string;
+  gitlabToken?: string;
+};
+
+export default function Command() {
+  const prefs = getPreferenceValues<Preferences>();
+  const repo = defaultRepoProfile();
+  const workerDir = repo.directory;
+  const gitUsername = String(prefs.gitUsername || "").trim();
+  const dailyZoomUrl = String(prefs.dailyZoomUrl || "").trim();
+
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [notes, setNotes] = useState<string>("");
+  const [since, setSince] = useState<Date | null>(null);
+
+  async function generate() {
+    setIsLoading(true);
+    try {
+      const gitlabToken = String(prefs.gitlabToken || "").trim();
+      // Without a detectable project the notes are built without merge requests, like when GitLab fails.
+      let gitlab: GitLabContext | null = null;
+      let projectError = "";
+      if (gitlabToken) {
+        try {
+          gitlab = { token: gitlabToken, projectPath: await resolveGitLabProject(repo) };
+        } catch (e) {
+          projectError = `GitLab: ${gitErrorMessage(e)}`;
+        }
+      }
+      const data = await loadStandupData({ workerDir, gitUsername, jira: getJiraCredentials(prefs), gitlab });
+      if (projectError) data.warnings.unshift(projectError);
+      setNotes(buildStandupMarkdown(data));
+      setSince(data.since);
+      if (data.warnings.length) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Some sources couldn't be loaded",
+          message: data.warnings.join("\n"),
+        });
+      }
+    } catch (e) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Couldn't build standup notes",
+        message: gitErrorMessage(e),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void generate();
+  }, [workerDir, gitUsername]);
+
+  async function joinDaily() {
+    await closeMainWindow();
+    await open(dailyZoomUrl);
+  }
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle="Standup Notes"
+      actions={
+        <ActionPanel>
+          <Action
+            title="Copy Notes and Join Daily"
+            icon={Icon.Video}
+            onAction={async () => {
+              await Clipboard.copy(notes);
+              await showHUD("Copied standup notes");
+              await joinDaily();
+            }}
+          />
+          <Action.CopyToClipboard
+            title="Copy Notes"
+            content={notes}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+          />
+          <Action
+            title="Join Daily"
+            icon={Icon.Video}
+            shortcut={{ modifiers: ["cmd"], key: "j" }}
+            onAction={joinDaily}
+          />
+          <Action
+            title="Regenerate Notes"
+            icon={Icon.ArrowClockwise}
+            shortcut={{ modifiers: ["cmd"], key: "r" }}
+            onAction={generate}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        text={
+          since
+            ? `Commits, Jira issues and merge requests since ${since.toLocaleDateString(undefined, { weekday: "long", day: "numeric", month: "short" })}.`
+            : "Collecting commits, Jira issues and merge requests…"
+        }
+      />
+      <Form.TextArea id="notes" title="Notes" value={notes} onChange={setNotes} enableMarkdown />
+    </Form>
+  );
+}
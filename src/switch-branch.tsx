@@ -0,0 +1,189 @@
+import { Action, ActionPanel, Color, Icon, List, Toast, getPreferenceValues, showToast } from "@raycast/api";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useRepoProfiles } from "./hooks/use-repo-profiles";
+import { parseBranchName } from "./lib/branch-name";
+import { listAutoStashedBranches, switchBranch } from "./lib/branch-switch";
+import { AheadBehind, BranchInfo, countAheadBehind, gitErrorMessage, loadBranches, refExists } from "./lib/git";
+import { fetchIssuesByKeys, getJiraCredentials, issueBrowseUrl } from "./lib/jira";
+import { DEFAULT_REPO_ID } from "./lib/repos";
+
+type Preferences = {
+  jiraEmail?: string;
+  jiraApiToken?: string;
+};
+
+// Branches are sorted by committer date; only the most recent ones get ahead/behind counts.
+const AHEAD_BEHIND_BRANCH_LIMIT = 40;
+
+type BranchCounts = {
+  upstream?: AheadBehind;
+  base?: AheadBehind;
+};
+
+function formatAheadBehind({ ahead, behind }: AheadBehind): string {
+  if (!ahead && !behind) return "=";
+  return [ahead ? `↑${ahead}` : "", behind ? `↓${behind}` : ""].filter(Boolean).join(" ");
+}
+
+export default function Command() {
+  const prefs = getPreferenceValues<Preferences>();
+  const { profiles } = useRepoProfiles();
+  const [repoId, setRepoId] = useState<string>(DEFAULT_REPO_ID);
+  const repo = useMemo(() => profiles.find((p) => p.id === repoId) ?? profiles[0], [profiles, repoId]);
+  const workerDir = repo.directory;
+  const baseBranch = repo.baseBranches[0] ?? "prod";
+
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [branches, setBranches] = useState<BranchInfo[]>([]);
+  const [stashedBranches, setStashedBranches] = useState<Set<string>>(new Set());
+  const [summaries, setSummaries] = useState<Record<string, string>>({});
+  const [counts, setCounts] = useState<Record<string, BranchCounts>>({});
+  const detailsReqIdRef = useRef<number>(0);
+
+  async function loadSummaries(list: BranchInfo[], reqId: number) {
+    const creds = getJiraCredentials(prefs);
+    const keys = list.map((b) => parseBranchName(b.branch).issueKey).filter((k): k is string => !!k);
+    if (!creds || !keys.length) return;
+    try {
+      const issues = await fetchIssuesByKeys(creds, keys);
+      if (reqId !== detailsReqIdRef.current) return;
+      setSummaries(Object.fromEntries(issues.map((issue) => [issue.key, issue.fields.summary ?? ""])));
+    } catch {
+      // Summaries are context only; the branch list is still usable without Jira.
+    }
+  }
+
+  async function loadCounts(list: BranchInfo[], reqId: number) {
+    // Compare against the remote base when we have it: the local base is often behind.
+    const baseRef = (await refExists(workerDir, `origin/${baseBranch}`)) ? `origin/${baseBranch}` : baseBranch;
+    for (const b of list.slice(0, AHEAD_BEHIND_BRANCH_LIMIT)) {
+      const next: BranchCounts = {};
+      try {
+        if (b.upstream) next.upstream = await countAheadBehind(workerDir, b.branch, b.upstream);
+      } catch {
+        // Upstream is gone.
+      }
+      try {
+        if (b.branch !== baseBranch) next.base = await countAheadBehind(workerDir, b.branch, baseRef);
+      } catch {
+        // No base branch in this repository.
+      }
+      if (reqId !== detailsReqIdRef.current) return;
+      setCounts((prev) => ({ ...prev, [b.branch]: next }));
+    }
+  }
+
+  async function reload() {
+    setIsLoading(true);
+    const reqId = ++detailsReqIdRef.current;
+    try {
+      const [res, stashed] = await Promise.all([loadBranches(workerDir), listAutoStashedBranches(workerDir)]);
+      setBranches(res.branches);
+      setStashedBranches(stashed);
+      setCounts({});
+      await Promise.all([loadSummaries(res.branches, reqId), loadCounts(res.branches, reqId)]);
+    } catch (e) {
+      if (reqId !== detailsReqIdRef.current) return;
+      setBranches([]);
+      await showToast({ style: Toast.Style.Failure, title: "Couldn't read git branches", message: gitErrorMessage(e) });
+    } finally {
+      if (reqId === detailsReqIdRef.current) setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void reload();
+  }, [repo.id, workerDir]);
+
+  async function handleSwitch(branch: string) {
+    const toast = await showToast({ style: Toast.Style.Animated, title: `Switching to ${branch}…` });
+    try {
+      const result = await switchBranch(workerDir, branch);
+      if (result.restoreError) {
+        toast.style = Toast.Style.Failure;
+        toast.title = `Switched to ${branch}, but its auto-stash didn't apply cleanly`;
+        toast.message = result.restoreError;
+      } else {
+        toast.style = Toast.Style.Success;
+        toast.title = `Switched to ${branch}`;
+        toast.message = [
+          result.stashed ? `Stashed changes of ${result.previousRef}` : "",
+          result.restored ? "Restored its stashed changes" : "",
+        ]
+          .filter(Boolean)
+          .join(" · ");
+      }
+      await reload();
+    } catch (e) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Couldn't switch branch";
+      toast.message = gitErrorMessage(e);
+    }
+  }
+
+  return (
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder="Search branches or Jira summaries…"
+      searchBarAccessory={
+        <List.Dropdown tooltip="Repository" storeValue onChange={setRepoId}>
+          {profiles.map((p) => (
+            <List.Dropdown.Item key={p.id} value={p.id} title={p.name} />
+          ))}
+        </List.Dropdown>
+      }
+    >
+      {branches.map((b) => {
+        const { issueKey } = parseBranchName(b.branch);
+        const summary = issueKey ? summaries[issueKey] : undefined;
+        const branchCounts = counts[b.branch];
+        const accessories: List.Item.Accessory[] = [];
+        if (stashedBranches.has(b.branch)) {
+          accessories.push({
+            icon: { source: Icon.Tray, tintColor: Color.Yellow },
+            tooltip: "Has auto-stashed changes",
+          });
+        }
+        if (branchCounts?.upstream) {
+          accessories.push({
+            text: formatAheadBehind(branchCounts.upstream),
+            tooltip: `Ahead/behind ${b.upstream}`,
+          });
+        }
+        if (branchCounts?.base) {
+          accessories.push({
+            tag: `${baseBranch} ${formatAheadBehind(branchCounts.base)}`,
+            tooltip: `Ahead/behind ${baseBranch}`,
+          });
+        }
+        if (b.date) accessories.push({ text: b.date, tooltip: "Last commit" });
+
+        return (
+          <List.Item
+            key={b.branch}
+            title={b.branch}
+            subtitle={summary || b.subject}
+            keywords={[issueKey ?? "", summary ?? ""].filter(Boolean)}
+            icon={b.isCurrent ? { source: Icon.CheckCircle, tintColor: Color.Green } : Icon.Code}
+            accessories={accessories}
+            actions={
+              <ActionPanel>
+                {!b.isCurrent ? (
+                  <Action title="Switch to Branch" icon={Icon.Switch} onAction={() => handleSwitch(b.branch)} />
+                ) : null}
+                {issueKey ? <Action.OpenInBrowser title="Open in Jira" url={issueBrowseUrl(issueKey)} /> : null}
+                <Action.CopyToClipboard title="Copy Branch Name" content={b.branch} />
+                <Action
+                  title="Reload Branches"
+                  icon={Icon.ArrowClockwise}
+                  shortcut={{ modifiers: ["cmd"], key: "r" }}
+                  onAction={reload}
+                />
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
@@ -0,0 +1,321 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Color,
+  Icon,
+  List,
+  Toast,
+  confirmAlert,
+  getPreferenceValues,
+  showToast,
+} from "@raycast/api";
+import path from "path";
+import { useEffect, useMemo, useState } from "react";
+import { useRepoProfiles } from "./hooks/use-repo-profiles";
+import {
+  AheadBehind,
+  GitOperation,
+  countAheadBehind,
+  forcePushWithLease,
+  getCurrentRef,
+  getOperationInProgress,
+  getRepoRoot,
+  gitErrorMessage,
+  listConflictedFiles,
+  localBranchExists,
+  refExists,
+} from "./lib/git";
+import { DEFAULT_REPO_ID } from "./lib/repos";
+import { SyncResult, SyncStrategy, abortSync, continueSync, syncWithBase } from "./lib/sync-branch";
+import { getBranchBase, setBranchBase } from "./lib/worker-branch";
+
+type Preferences = {
+  syncStrategy?: SyncStrategy;
+};
+
+type SyncState = {
+  branch: string;
+  isBranch: boolean;
+  baseBranch: string;
+  // The base was recorded when the branch was created (or picked here), not guessed.
+  isBaseRemembered: boolean;
+  counts: AheadBehind | null;
+  operation: GitOperation | null;
+  conflicts: string[];
+  repoRoot: string;
+};
+
+const STRATEGY_LABELS: Record<SyncStrategy, string> = { rebase: "Rebase", merge: "Merge" };
+
+const OPERATION_LABELS: Record<GitOperation, string> = {
+  ...STRATEGY_LABELS,
+  "cherry-pick": "Cherry-Pick",
+  revert: "Revert",
+};
+
+export default function Command() {
+  const { syncStrategy = "rebase" } = getPreferenceValues<Preferences>();
+  const { profiles } = useRepoProfiles();
+  const [repoId, setRepoId] = useState<string>(DEFAULT_REPO_ID);
+  const repo = useMemo(() => profiles.find((p) => p.id === repoId) ?? profiles[0], [profiles, repoId]);
+  const workerDir = repo.directory;
+  const otherStrategy: SyncStrategy = syncStrategy === "rebase" ? "merge" : "rebase";
+
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [state, setState] = useState<SyncState | null>(null);
+
+  async function reload() {
+    setIsLoading(true);
+    try {
+      const branch = await getCurrentRef(workerDir);
+      const isBranch = await localBranchExists(workerDir, branch);
+      const remembered = isBranch ? await getBranchBase(workerDir, branch) : null;
+      const baseBranch = remembered ?? repo.baseBranches[0] ?? "prod";
+      const baseRef = (await refExists(workerDir, `origin/${baseBranch}`)) ? `origin/${baseBranch}` : baseBranch;
+      const [counts, operation, conflicts, repoRoot] = await Promise.all([
+        countAheadBehind(workerDir, "HEAD", baseRef).catch(() => null),
+        getOperationInProgress(workerDir),
+        listConflictedFiles(workerDir),
+        getRepoRoot(workerDir),
+      ]);
+      setState({
+        branch,
+        isBranch,
+        baseBranch,
+        isBaseRemembered: !!remembered,
+        counts,
+        operation,
+        conflicts,
+        repoRoot,
+      });
+    } catch (e) {
+      setState(null);
+      await showToast({ style: Toast.Style.Failure, title: "Couldn't read git state", message: gitErrorMessage(e) });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void reload();
+  }, [repo.id, workerDir]);
+
+  async function handleForcePush() {
+    if (!state?.isBranch) return;
+    const confirmed = await confirmAlert({
+      title: `Force push ${state.branch}?`,
+      message: "Uses --force-with-lease: the push is rejected if someone else pushed to the branch in the meantime.",
+      primaryAction: { title: "Force Push", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: `Pushing ${state.branch}…` });
+    try {
+      await forcePushWithLease(workerDir, state.branch);
+      toast.style = Toast.Style.Success;
+      toast.title = `Pushed ${state.branch}`;
+      await reload();
+    } catch (e) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Push failed";
+      toast.message = gitErrorMessage(e);
+    }
+  }
+
+  async function reportResult(result: SyncResult, toast: Toast) {
+    if (result.status === "conflicts") {
+      toast.style = Toast.Style.Failure;
+      toast.title = `${result.conflicts.length} conflicting file(s)`;
+      toast.message = `Resolve them, then continue the ${result.operation}.`;
+    } else if (result.status === "up-to-date") {
+      toast.style = Toast.Style.Success;
+      toast.title = `Already up to date with origin/${state?.baseBranch}`;
+    } else {
+      toast.style = Toast.Style.Success;
+      toast.title = result.behind ? `Picked up ${result.behind} commit(s)` : "Sync finished";
+      toast.primaryAction = { title: "Force Push with Lease", onAction: () => void handleForcePush() };
+    }
+    await reload();
+  }
+
+  async function handleSync(strategy: SyncStrategy) {
+    if (!state) return;
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: `${STRATEGY_LABELS[strategy]} onto origin/${state.baseBranch}…`,
+    });
+    try {
+      await reportResult(await syncWithBase(workerDir, state.baseBranch, strategy), toast);
+    } catch (e) {
+      toast.style = Toast.Style.Failure;
+      toast.title = `${STRATEGY_LABELS[strategy]} failed`;
+      toast.message = gitErrorMessage(e);
+    }
+  }
+
+  async function handleContinue() {
+    const toast = await showToast({ style: Toast.Style.Animated, title: `Continuing ${state?.operation}…` });
+    try {
+      await reportResult(await continueSync(workerDir), toast);
+    } catch (e) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Couldn't continue";
+      toast.message = gitErrorMessage(e);
+    }
+  }
+
+  async function handleAbort() {
+    if (!state?.operation) return;
+    const { operation } = state;
+    const confirmed = await confirmAlert({
+      title: `Abort the ${operation}?`,
+      message: `The branch goes back to where it was before the ${operation}.`,
+      primaryAction: { title: "Abort", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    try {
+      await abortSync(workerDir);
+      await showToast({
+        style: Toast.Style.Success,
+        title: `${OPERATION_LABELS[operation]} aborted`,
+      });
+      await reload();
+    } catch (e) {
+      await showToast({ style: Toast.Style.Failure, title: "Couldn't abort", message: gitErrorMessage(e) });
+    }
+  }
+
+  async function handleChangeBase(baseBranch: string) {
+    if (!state?.isBranch) return;
+    await setBranchBase(workerDir, state.branch, baseBranch);
+    await reload();
+  }
+
+  const reloadAction = (
+    <Action title="Reload" icon={Icon.ArrowClockwise} shortcut={{ modifiers: ["cmd"], key: "r" }} onAction={reload} />
+  );
+
+  const operation = state?.operation ?? null;
+
+  return (
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder="Filter conflicting files…"
+      searchBarAccessory={
+        <List.Dropdown tooltip="Repository" storeValue onChange={setRepoId}>
+          {profiles.map((p) => (
+            <List.Dropdown.Item key={p.id} value={p.id} title={p.name} />
+          ))}
+        </List.Dropdown>
+      }
+    >
+      {state && operation ? (
+        <List.Section title={`${OPERATION_LABELS[operation]} in Progress`}>
+          {state.conflicts.map((file) => {
+            const absolutePath = path.join(state.repoRoot, file);
+            return (
+              <List.Item
+                key={file}
+                title={file}
+                icon={{ source: Icon.ExclamationMark, tintColor: Color.Red }}
+                accessories={[{ tag: { value: "conflict", color: Color.Red } }]}
+                actions={
+                  <ActionPanel>
+                    <Action.Open title="Open File" target={absolutePath} />
+                    <Action
+                      title={`Mark Resolved and Continue ${OPERATION_LABELS[operation]}`}
+                      icon={Icon.Forward}
+                      shortcut={{ modifiers: ["cmd"], key: "return" }}
+                      onAction={handleContinue}
+                    />
+                    <Action
+                      title={`Abort ${OPERATION_LABELS[operation]}`}
+                      icon={Icon.XMarkCircle}
+                      style={Action.Style.Destructive}
+                      shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                      onAction={handleAbort}
+                    />
+                    <Action.ShowInFinder path={absolutePath} />
+                    <Action.CopyToClipboard title="Copy Path" content={absolutePath} />
+                    {reloadAction}
+                  </ActionPanel>
+                }
+              />
+            );
+          })}
+          {!state.conflicts.length ? (
+            <List.Item
+              title="All conflicts resolved"
+              icon={{ source: Icon.CheckCircle, tintColor: Color.Green }}
+              actions={
+                <ActionPanel>
+                  <Action
+                    title={`Continue ${OPERATION_LABELS[operation]}`}
+                    icon={Icon.Forward}
+                    onAction={handleContinue}
+                  />
+                  <Action
+                    title={`Abort ${OPERATION_LABELS[operation]}`}
+                    icon={Icon.XMarkCircle}
+                    style={Action.Style.Destructive}
+                    onAction={handleAbort}
+                  />
+                  {reloadAction}
+                </ActionPanel>
+              }
+            />
+          ) : null}
+        </List.Section>
+      ) : null}
+      {state && !operation ? (
+        <List.Item
+          title={`Sync ${state.branch} with origin/${state.baseBranch}`}
+          subtitle={state.isBaseRemembered ? "base recorded at branch creation" : "default base branch"}
+          icon={Icon.ArrowClockwise}
+          accessories={[
+            ...(state.counts
+              ? [
+                  {
+                    text: `↑${state.counts.ahead} ↓${state.counts.behind}`,
+                    tooltip: `Ahead/behind origin/${state.baseBranch}`,
+                  },
+                ]
+              : []),
+            { tag: STRATEGY_LABELS[syncStrategy] },
+          ]}
+          actions={
+            <ActionPanel>
+              <Action
+                title={`${STRATEGY_LABELS[syncStrategy]} Branch`}
+                icon={Icon.ArrowClockwise}
+                onAction={() => handleSync(syncStrategy)}
+              />
+              <Action
+                title={`${STRATEGY_LABELS[otherStrategy]} Instead`}
+                icon={Icon.Shuffle}
+                onAction={() => handleSync(otherStrategy)}
+              />
+              {state.isBranch ? (
+                <Action
+                  title="Force Push with Lease"
+                  icon={Icon.Upload}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+                  onAction={handleForcePush}
+                />
+              ) : null}
+              {state.isBranch ? (
+                <ActionPanel.Submenu title="Change Base Branch" icon={Icon.Tree}>
+                  {repo.baseBranches.map((b) => (
+                    <Action key={b} title={b} onAction={() => handleChangeBase(b)} />
+                  ))}
+                </ActionPanel.Submenu>
+              ) : null}
+              {reloadAction}
+            </ActionPanel>
+          }
+        />
+      ) : null}
+    </List>
+  );
+}
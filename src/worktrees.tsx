@@ -0,0 +1,190 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Application,
+  Color,
+  Icon,
+  List,
+  Toast,
+  confirmAlert,
+  getPreferenceValues,
+  showToast,
+} from "@raycast/api";
+import { existsSync } from "fs";
+import path from "path";
+import { useEffect, useMemo, useState } from "react";
+import { useRepoProfiles } from "./hooks/use-repo-profiles";
+import { parseBranchName } from "./lib/branch-name";
+import { Worktree, getDirtyFiles, gitErrorMessage, listWorktrees, pruneWorktrees, removeWorktree } from "./lib/git";
+import { issueBrowseUrl } from "./lib/jira";
+import { DEFAULT_REPO_ID } from "./lib/repos";
+
+type Preferences = {
+  worktreeEditor?: Application;
+  worktreeTerminal?: Application;
+};
+
+type WorktreeInfo = Worktree & {
+  // Path of the repository's worker directory inside this worktree (falls back to the worktree root).
+  openPath: string;
+  dirtyCount: number | null;
+};
+
+async function loadWorktrees(workerDir: string): Promise<WorktreeInfo[]> {
+  const worktrees = await listWorktrees(workerDir);
+  const mainRoot = worktrees.find((w) => w.isMain)?.path ?? workerDir;
+  const subdir = path.relative(mainRoot, workerDir);
+
+  return Promise.all(
+    worktrees.map(async (w) => {
+      const nested = path.join(w.path, subdir);
+      const dirtyFiles = w.isPrunable ? null : await getDirtyFiles(w.path).catch(() => null);
+      return {
+        ...w,
+        openPath: existsSync(nested) ? nested : w.path,
+        dirtyCount: dirtyFiles ? dirtyFiles.length : null,
+      };
+    }),
+  );
+}
+
+function worktreeAccessories(w: WorktreeInfo): List.Item.Accessory[] {
+  const accessories: List.Item.Accessory[] = [];
+  const { issueKey } = parseBranchName(w.branch ?? "");
+  if (issueKey) accessories.push({ tag: issueKey, tooltip: "Jira issue" });
+  if (w.isPrunable) {
+    accessories.push({ tag: { value: "missing", color: Color.Red }, tooltip: "Directory is gone; prune to clean up" });
+  } else if (w.dirtyCount) {
+    accessories.push({ tag: { value: `${w.dirtyCount} changed`, color: Color.Yellow } });
+  } else if (w.dirtyCount === 0) {
+    accessories.push({ icon: { source: Icon.CheckCircle, tintColor: Color.Green }, tooltip: "Clean" });
+  }
+  if (w.isLocked) accessories.push({ icon: Icon.Lock, tooltip: "Locked" });
+  return accessories;
+}
+
+export default function Command() {
+  const { worktreeEditor, worktreeTerminal } = getPreferenceValues<Preferences>();
+  const { profiles } = useRepoProfiles();
+  const [repoId, setRepoId] = useState<string>(DEFAULT_REPO_ID);
+  const repo = useMemo(() => profiles.find((p) => p.id === repoId) ?? profiles[0], [profiles, repoId]);
+
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [worktrees, setWorktrees] = useState<WorktreeInfo[]>([]);
+
+  async function reload() {
+    setIsLoading(true);
+    try {
+      setWorktrees(await loadWorktrees(repo.directory));
+    } catch (e) {
+      setWorktrees([]);
+      await showToast({ style: Toast.Style.Failure, title: "Couldn't list worktrees", message: gitErrorMessage(e) });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void reload();
+  }, [repo.id, repo.directory]);
+
+  async function handleRemove(w: WorktreeInfo) {
+    const isDirty = !!w.dirtyCount;
+    const confirmed = await confirmAlert({
+      title: `Remove worktree ${path.basename(w.path)}?`,
+      message: isDirty
+        ? `It has ${w.dirtyCount} uncommitted change(s) that will be lost. The branch itself is kept.`
+        : "The directory is deleted; the branch itself is kept.",
+      primaryAction: { title: isDirty ? "Discard Changes and Remove" : "Remove", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    try {
+      await removeWorktree(repo.directory, w.path, isDirty);
+      await showToast({ style: Toast.Style.Success, title: "Worktree removed" });
+      await reload();
+    } catch (e) {
+      await showToast({ style: Toast.Style.Failure, title: "Couldn't remove worktree", message: gitErrorMessage(e) });
+    }
+  }
+
+  async function handlePrune() {
+    try {
+      await pruneWorktrees(repo.directory);
+      await showToast({ style: Toast.Style.Success, title: "Pruned stale worktrees" });
+      await reload();
+    } catch (e) {
+      await showToast({ style: Toast.Style.Failure, title: "Couldn't prune worktrees", message: gitErrorMessage(e) });
+    }
+  }
+
+  return (
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder="Search worktrees…"
+      searchBarAccessory={
+        <List.Dropdown tooltip="Repository" storeValue onChange={setRepoId}>
+          {profiles.map((p) => (
+            <List.Dropdown.Item key={p.id} value={p.id} title={p.name} />
+          ))}
+        </List.Dropdown>
+      }
+    >
+      {worktrees.map((w) => {
+        const { issueKey } = parseBranchName(w.branch ?? "");
+        return (
+          <List.Item
+            key={w.path}
+            title={w.branch ?? `detached at ${w.head.slice(0, 8)}`}
+            subtitle={w.isMain ? "main worktree" : w.path}
+            icon={w.isMain ? Icon.House : Icon.Folder}
+            accessories={worktreeAccessories(w)}
+            actions={
+              <ActionPanel>
+                {!w.isPrunable ? (
+                  <>
+                    <Action.Open
+                      title="Open in Editor"
+                      icon={Icon.Code}
+                      target={w.openPath}
+                      application={worktreeEditor}
+                    />
+                    {worktreeTerminal ? (
+                      <Action.Open
+                        title="Open in Terminal"
+                        icon={Icon.Terminal}
+                        target={w.openPath}
+                        application={worktreeTerminal}
+                        shortcut={{ modifiers: ["cmd"], key: "t" }}
+                      />
+                    ) : null}
+                    <Action.ShowInFinder path={w.openPath} />
+                  </>
+                ) : null}
+                <Action.CopyToClipboard title="Copy Path" content={w.openPath} />
+                {issueKey ? <Action.OpenInBrowser title="Open in Jira" url={issueBrowseUrl(issueKey)} /> : null}
+                {!w.isMain ? (
+                  <Action
+                    title="Remove Worktree"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={() => handleRemove(w)}
+                  />
+                ) : null}
+                <Action title="Prune Stale Worktrees" icon={Icon.Eraser} onAction={handlePrune} />
+                <Action
+                  title="Reload Worktrees"
+                  icon={Icon.ArrowClockwise}
+                  shortcut={{ modifiers: ["cmd"], key: "r" }}
+                  onAction={reload}
+                />
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}